@@ -0,0 +1,111 @@
+// Service worker for offline play.
+// - The app shell, every built bundle (lazy chunks like the question snapshot
+//   included) and the public files are precached on install
+// - Anything else from this origin is cached the first time it is requested
+// - The public question deck (Sheets, the Supabase questions view, static
+//   CSV/JSON) is network-first, falling back to the last good response
+//
+// CACHE_VERSION and PRECACHE_URLS are filled in at build time by the
+// service-worker-manifest plugin in vite.config.ts; the version is a hash of
+// the build, so every release installs a new worker and shows the update prompt.
+
+const CACHE_VERSION = 'dev';
+const SHELL_CACHE = `friends-shell-${CACHE_VERSION}`;
+const DECK_CACHE = `friends-deck-${CACHE_VERSION}`;
+
+const PRECACHE_URLS = ['./', './index.html'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) =>
+      // Add one by one so a single missing file doesn't abort the install
+      Promise.all(PRECACHE_URLS.map((url) =>
+        cache.add(url).catch((error) => console.warn('SW: failed to precache', url, error))
+      ))
+    )
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== SHELL_CACHE && key !== DECK_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks a waiting worker to take over after the user accepts the update prompt
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// Only the public deck: other Supabase tables hold admin data and reports
+const isDeckRequest = (url) =>
+  (url.hostname === 'docs.google.com' && url.pathname.includes('/export')) ||
+  decodeURIComponent(url.pathname) === '/rest/v1/Friends App Questions' ||
+  /\/quiz_questions\.(csv|json)$/.test(url.pathname);
+
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (isDeckRequest(url)) {
+    event.respondWith(networkFirst(request, DECK_CACHE));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  // SPA navigation: fresh index.html when online, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put('./index.html', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('./index.html'))
+    );
+    return;
+  }
+
+  event.respondWith(cacheFirst(request));
+});
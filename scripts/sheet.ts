@@ -0,0 +1,33 @@
+// Helpers shared by the scripts that read the question sheet
+import type { ParsedQuestions } from '@/lib/questions';
+import { countReportIssues } from '@/lib/questionSchema';
+import { getSheetCsvUrl } from '@/lib/questionSources';
+
+export function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+export function hasFlag(name: string): boolean {
+  return process.argv.includes(name);
+}
+
+export async function fetchSheet(sheetId: string, gid?: string): Promise<string> {
+  const response = await fetch(getSheetCsvUrl(sheetId, gid), { signal: AbortSignal.timeout(15000) });
+  if (!response.ok) {
+    throw new Error(`Google Sheets responded with ${response.status}`);
+  }
+  return response.text();
+}
+
+export function printReport(parsed: ParsedQuestions) {
+  const { report } = parsed;
+  console.log(`Parsed ${parsed.questions.length} questions, ${countReportIssues(report)} issue(s)`);
+  report.rejected.forEach(({ line, message }) => console.warn(`  rejected line ${line}: ${message}`));
+  report.unknownCategories.forEach(({ category, lines }) =>
+    console.warn(`  unknown category "${category}" (lines ${lines.join(', ')})`));
+  report.duplicates.forEach(({ id, lines }) => console.warn(`  duplicate ${id} (lines ${lines.join(', ')})`));
+  if (report.missingEnglish.length > 0) {
+    console.warn(`  ${report.missingEnglish.length} question(s) without English text`);
+  }
+}
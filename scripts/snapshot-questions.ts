@@ -0,0 +1,100 @@
+/**
+ * Snapshots the question deck into src/data/questionSnapshot.ts, which is
+ * bundled into the app as the last fallback when no source is reachable.
+ *
+ * Usage:
+ *   npm run snapshot                      # Google Sheet, local CSV when offline
+ *   npm run snapshot -- --file deck.csv   # Always use a local CSV file
+ *
+ * The sheet is taken from VITE_GOOGLE_SHEET_ID / VITE_GOOGLE_SHEET_GID.
+ * If the sheet is unreachable and no --file is given, an existing snapshot is
+ * kept rather than replaced with the (older) local CSV. The file is only
+ * rewritten when the questions change, so builds don't touch it otherwise.
+ */
+import { access, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { parseQuestionsCsv, type QuestionSnapshot } from '@/lib/questions';
+import { DEFAULT_GOOGLE_SHEET_ID } from '@/lib/questionSources';
+import { fetchSheet, getArg, printReport } from './sheet';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const OUTPUT_PATH = path.join(ROOT, 'src/data/questionSnapshot.ts');
+const DEFAULT_CSV_PATH = path.join(ROOT, 'quiz_questions.csv');
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readExistingSnapshot(): Promise<QuestionSnapshot | null> {
+  if (!(await fileExists(OUTPUT_PATH))) return null;
+  const module: { questionSnapshot?: QuestionSnapshot } = await import(pathToFileURL(OUTPUT_PATH).href);
+  return module.questionSnapshot ?? null;
+}
+
+async function main() {
+  const filePath = getArg('--file');
+  const sheetId = process.env.VITE_GOOGLE_SHEET_ID || DEFAULT_GOOGLE_SHEET_ID;
+
+  let csvText: string;
+  let origin: string;
+
+  if (filePath) {
+    csvText = await readFile(path.resolve(filePath), 'utf8');
+    origin = path.relative(ROOT, path.resolve(filePath));
+  } else {
+    try {
+      csvText = await fetchSheet(sheetId, process.env.VITE_GOOGLE_SHEET_GID);
+      origin = `sheet:${sheetId}`;
+    } catch (error) {
+      console.warn(`Could not fetch Google Sheet (${(error as Error).message})`);
+      if (await fileExists(OUTPUT_PATH)) {
+        console.warn('Keeping existing snapshot');
+        return;
+      }
+      console.warn(`Falling back to ${path.relative(ROOT, DEFAULT_CSV_PATH)}`);
+      csvText = await readFile(DEFAULT_CSV_PATH, 'utf8');
+      origin = path.relative(ROOT, DEFAULT_CSV_PATH);
+    }
+  }
+
+  const parsed = parseQuestionsCsv(csvText);
+  printReport(parsed);
+
+  if (parsed.questions.length === 0) {
+    throw new Error('Snapshot would be empty - refusing to overwrite');
+  }
+
+  const existing = await readExistingSnapshot();
+  if (existing && JSON.stringify(existing.questions) === JSON.stringify(parsed.questions)) {
+    console.log(`${path.relative(ROOT, OUTPUT_PATH)} is up to date (${existing.questions.length} questions from ${existing.createdAt})`);
+    return;
+  }
+
+  const snapshot: QuestionSnapshot = {
+    createdAt: new Date().toISOString(),
+    origin,
+    questions: parsed.questions,
+  };
+
+  const source = [
+    '// Generated by scripts/snapshot-questions.ts - do not edit by hand.',
+    "import type { QuestionSnapshot } from '@/lib/questions';",
+    '',
+    `export const questionSnapshot: QuestionSnapshot = ${JSON.stringify(snapshot, null, 2)};`,
+    '',
+  ].join('\n');
+
+  await writeFile(OUTPUT_PATH, source, 'utf8');
+  console.log(`Wrote ${path.relative(ROOT, OUTPUT_PATH)} (${snapshot.questions.length} questions from ${origin})`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,192 @@
+/**
+ * Syncs the Google Sheet (the authoring tool) into the Supabase question
+ * tables the app is served from. Prints what would change; only --apply
+ * writes. Running it again right after an apply reports no changes.
+ *
+ * Usage:
+ *   npm run sync-sheet                       # dry run against the sheet
+ *   npm run sync-sheet -- --apply            # write the changes
+ *   npm run sync-sheet -- --file deck.csv    # use a local CSV instead
+ *   npm run sync-sheet -- --apply --force    # apply despite the safety checks
+ *
+ * Needs SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY:
+ * retired questions are only visible to admins, and writes bypass RLS. The
+ * sheet is taken from VITE_GOOGLE_SHEET_ID / VITE_GOOGLE_SHEET_GID.
+ *
+ * Questions keep their stored ID when the sheet text is edited (see
+ * src/lib/deckSync.ts); the new text's hash is then added to
+ * src/data/questionIdAliases.ts, so the sheet and snapshot sources serve the
+ * same ID once that file is committed and deployed. Questions missing from
+ * the sheet are retired, never deleted, so putting them back restores them
+ * with the same ID.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { questionIdAliases } from '@/data/questionIdAliases';
+import { parseQuestionsCsv } from '@/lib/questions';
+import { DEFAULT_GOOGLE_SHEET_ID } from '@/lib/questionSources';
+import { countChanges, diffDeck, type DeckDiff, type StoredQuestion } from '@/lib/deckSync';
+import { fetchSheet, getArg, hasFlag, printReport } from './sheet';
+
+// Refuse to retire more than this share of the live deck without --force
+const MAX_REMOVED_SHARE = 0.25;
+const PAGE_SIZE = 1000;
+const ALIASES_PATH = fileURLToPath(new URL('../src/data/questionIdAliases.ts', import.meta.url));
+
+type Client = ReturnType<typeof createClient<Database>>;
+
+function createServiceClient(): Client {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    throw new Error('Set SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY');
+  }
+  return createClient<Database>(url, key, { auth: { persistSession: false } });
+}
+
+async function loadStored(client: Client): Promise<StoredQuestion[]> {
+  const stored: StoredQuestion[] = [];
+  // PostgREST caps responses, so read in pages
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('questions')
+      .select('id, category, status, question_translations (locale, text)')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load questions: ${error.message}`);
+
+    for (const row of data) {
+      const text = (locale: string) => row.question_translations.find(t => t.locale === locale)?.text ?? null;
+      stored.push({ id: row.id, category: row.category, status: row.status, de: text('de'), en: text('en') });
+    }
+    if (data.length < PAGE_SIZE) return stored;
+  }
+}
+
+async function loadCategorySlugs(client: Client): Promise<string[]> {
+  const { data, error } = await client.from('categories').select('slug');
+  if (error) throw new Error(`Failed to load categories: ${error.message}`);
+  return data.map(row => row.slug);
+}
+
+const shorten = (text: string | null, length = 70) =>
+  !text ? '∅' : text.length > length ? `"${text.slice(0, length - 1)}…"` : `"${text}"`;
+
+function printDiff(diff: DeckDiff) {
+  const section = (symbol: string, title: string, lines: string[]) => {
+    if (lines.length === 0) return;
+    console.log(`\n${title} (${lines.length})`);
+    lines.forEach(line => console.log(`  ${symbol} ${line}`));
+  };
+
+  section('+', 'New categories', diff.newCategories);
+  section('+', 'Added', diff.added.map(q => `${q.id} [${q.category}] ${shorten(q.de)}`));
+  section('~', 'Changed text', diff.changedText.map(c => `${c.id} ${c.locale}: ${shorten(c.before, 40)} → ${shorten(c.after, 40)}`));
+  section('>', 'Moved category', diff.movedCategory.map(m => `${m.id} ${m.from} → ${m.to} ${shorten(m.question, 40)}`));
+  section('-', 'Removed (will be retired)', diff.removed.map(q => `${q.id} [${q.category}] ${shorten(q.de)}`));
+  section('↺', 'Restored', diff.restored.map(q => `${q.id} [${q.category}] ${shorten(q.de)}`));
+  section('=', 'ID aliases', diff.aliases.map(alias => `${alias.from} → ${alias.to}`));
+  section('!', 'Need an id column in the sheet', diff.renamed.map(r => `${r.id} (not ${r.sheetId}) ${shorten(r.question, 40)}`));
+  console.log(`\n${diff.unchanged} unchanged, ${countChanges(diff)} to change`);
+}
+
+/**
+ * Writes the diff through the apply_deck_sync function, which runs it in one
+ * transaction: a failed run changes nothing and can simply be repeated.
+ */
+async function applyDiff(client: Client, diff: DeckDiff) {
+  const changes = {
+    categories: diff.newCategories.map(slug => ({
+      slug,
+      name: slug.replace(/-/g, ' ').replace(/\b\w/g, char => char.toUpperCase()),
+    })),
+    questions: diff.added.map(q => ({ id: q.id, category: q.category })),
+    moves: diff.movedCategory.map(move => ({ id: move.id, category: move.to })),
+    translations: [
+      ...diff.added.flatMap(q => [
+        { question_id: q.id, locale: 'de', text: q.de },
+        ...(q.en ? [{ question_id: q.id, locale: 'en', text: q.en }] : []),
+      ]),
+      ...diff.changedText.map(c => ({ question_id: c.id, locale: c.locale, text: c.after })),
+    ],
+    restored: diff.restored.map(q => q.id),
+    retired: diff.removed.map(q => q.id),
+  };
+
+  const { error } = await client.rpc('apply_deck_sync', { changes });
+  if (error) throw new Error(`Applying the sync failed, nothing was written: ${error.message}`);
+}
+
+/**
+ * Adds the sync's aliases to src/data/questionIdAliases.ts. An alias target
+ * is the ID the question keeps, so it can't be an alias itself.
+ */
+async function writeAliases(aliases: DeckDiff['aliases']) {
+  const merged = { ...questionIdAliases };
+  aliases.forEach(({ from, to }) => {
+    merged[from] = to;
+    delete merged[to];
+  });
+  const sorted = Object.fromEntries(Object.entries(merged).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+
+  const source = [
+    '// Question ID → the ID the question is known by. scripts/sync-sheet.ts adds',
+    '// an entry whenever edited sheet text keeps its stored ID; entries for typo',
+    '// fixes outside the sync can be added by hand.',
+    `export const questionIdAliases: Record<string, string> = ${JSON.stringify(sorted, null, 2)};`,
+    '',
+  ].join('\n');
+  await writeFile(ALIASES_PATH, source, 'utf8');
+  console.log(`Added ${aliases.length} alias(es) to ${path.relative(process.cwd(), ALIASES_PATH)} - commit and deploy it`);
+}
+
+async function main() {
+  const filePath = getArg('--file');
+  const apply = hasFlag('--apply');
+  const force = hasFlag('--force');
+  const sheetId = process.env.VITE_GOOGLE_SHEET_ID || DEFAULT_GOOGLE_SHEET_ID;
+
+  const csvText = filePath
+    ? await readFile(path.resolve(filePath), 'utf8')
+    : await fetchSheet(sheetId, process.env.VITE_GOOGLE_SHEET_GID);
+  const parsed = parseQuestionsCsv(csvText);
+  printReport(parsed);
+
+  const client = createServiceClient();
+  const [stored, categories] = await Promise.all([loadStored(client), loadCategorySlugs(client)]);
+  const diff = diffDeck(parsed, stored, categories);
+  console.log(`Supabase has ${stored.filter(q => q.status === 'live').length} live questions`);
+  printDiff(diff);
+
+  if (countChanges(diff) === 0) return;
+  if (!apply) {
+    console.log('\nDry run - nothing was written. Run with --apply to write these changes.');
+    return;
+  }
+
+  // A broken export should not retire half the deck
+  const problems: string[] = [];
+  if (parsed.questions.length === 0) problems.push('the sheet has no questions');
+  if (parsed.report.rejected.length > 0) problems.push(`${parsed.report.rejected.length} sheet row(s) were rejected`);
+  // Without an id column they would clash with the alias of another row next time
+  if (diff.renamed.length > 0) problems.push(`${diff.renamed.length} new row(s) need an id column`);
+  const live = stored.filter(q => q.status === 'live').length;
+  if (live > 0 && diff.removed.length / live > MAX_REMOVED_SHARE) {
+    problems.push(`${diff.removed.length} of ${live} live questions would be retired`);
+  }
+  if (problems.length > 0 && !force) {
+    throw new Error(`Not applying: ${problems.join('; ')}. Fix the sheet or rerun with --force.`);
+  }
+
+  await applyDiff(client, diff);
+  if (diff.aliases.length > 0) await writeAliases(diff.aliases);
+  console.log('\nApplied.');
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,386 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Archive, ArrowLeft, Check, CheckCheck, Eye, Flag, Pencil, RotateCcw, X } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardFooter } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { AdminLogin } from '@/components/AdminLogin';
+import { QuestionEditorDialog } from '@/components/QuestionEditorDialog';
+import { QuestionPreview } from '@/components/QuestionPreview';
+import { useAdminSession } from '@/hooks/use-admin-session';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { translateCategory } from '@/lib/questionTranslations';
+import { getCategory, getCategoryStyle } from '@/lib/categories';
+import { normalizeSearchText } from '@/lib/questionSearch';
+import {
+  approveSubmission,
+  dismissReports,
+  draftToQuestion,
+  listLiveQuestions,
+  listReportCounts,
+  listSubmissions,
+  rejectSubmission,
+  setQuestionRetired,
+  signOutAdmin,
+  updateLiveQuestion,
+  type LiveQuestion,
+  type QuestionDraft,
+  type ReportCount,
+  type Submission,
+} from '@/lib/moderation';
+import { REPORT_REASONS } from '@/lib/questionReports';
+import type { Question } from '@/lib/questions';
+
+type Editing =
+  | { kind: 'submission'; submission: Submission; draft: QuestionDraft }
+  | { kind: 'question'; question: LiveQuestion; draft: QuestionDraft };
+
+// getCategory also resolves raw sheet values like "FUCK" that predate slugs
+const categoryOrder = (category: string) => getCategory(category)?.order ?? Number.MAX_SAFE_INTEGER;
+
+const actionClassName = 'flex items-center gap-1 whitespace-nowrap text-white hover:opacity-70 transition-opacity disabled:opacity-40';
+
+export function AdminConsole() {
+  const { session, loading, isAdmin } = useAdminSession();
+  const { t } = useLanguage();
+
+  // Same dark page as the browse view
+  useEffect(() => {
+    document.documentElement.style.setProperty('--page-bg', '#000000');
+    document.body.style.backgroundColor = '#000000';
+    document.querySelector('meta[name="theme-color"]')?.setAttribute('content', '#000000');
+  }, []);
+
+  return (
+    <div className="h-[100svh] overflow-y-auto bg-black text-white">
+      <div className="sticky top-0 z-10 bg-black/90 backdrop-blur px-4 pt-4 pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <Link to="/" className="flex items-center gap-2 hover:opacity-70 transition-opacity" style={{ fontSize: '14px' }}>
+            <ArrowLeft className="h-4 w-4" />
+            {t.back}
+          </Link>
+          <h1 className="text-xl font-normal">{t.adminTitle}</h1>
+          {session ? (
+            <button onClick={signOutAdmin} className="hover:opacity-70 transition-opacity" style={{ fontSize: '14px' }}>
+              {t.adminSignOut}
+            </button>
+          ) : (
+            <span />
+          )}
+        </div>
+      </div>
+
+      {loading ? null : !session ? (
+        <AdminLogin />
+      ) : !isAdmin ? (
+        <p className="px-4 pt-16 text-center text-white/60" style={{ fontSize: '14px' }}>{t.adminNoAccess}</p>
+      ) : (
+        <ModerationTabs />
+      )}
+    </div>
+  );
+}
+
+function ModerationTabs() {
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [liveQuestions, setLiveQuestions] = useState<LiveQuestion[]>([]);
+  const [reports, setReports] = useState<ReportCount[]>([]);
+  const [filter, setFilter] = useState('');
+  const [showRetired, setShowRetired] = useState(false);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [preview, setPreview] = useState<Question | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { language, t } = useLanguage();
+  const { toast } = useToast();
+
+  const reload = useCallback(async () => {
+    try {
+      const [pending, live, reportCounts] = await Promise.all([
+        listSubmissions('pending'),
+        listLiveQuestions(),
+        listReportCounts(),
+      ]);
+      setSubmissions(pending);
+      setLiveQuestions(live);
+      setReports(reportCounts);
+    } catch (error) {
+      console.error(error);
+      toast({ title: t.adminActionFailed, description: (error as Error).message, variant: 'destructive' });
+    }
+  }, [t, toast]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  /** Runs one moderation action, reports the outcome and refreshes the lists */
+  const run = async (action: () => Promise<void>, successTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: successTitle });
+      setEditing(null);
+    } catch (error) {
+      console.warn(error);
+      toast({ title: t.adminActionFailed, description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+      reload();
+    }
+  };
+
+  const listedQuestions = useMemo(() => {
+    const tokens = normalizeSearchText(filter).split(' ').filter(Boolean);
+    return liveQuestions
+      .filter(q => showRetired || q.status !== 'retired')
+      .filter(q => {
+        const text = normalizeSearchText(q.question);
+        return tokens.every(token => text.includes(token));
+      })
+      .sort((a, b) => categoryOrder(a.category) - categoryOrder(b.category));
+  }, [liveQuestions, filter, showRetired]);
+
+  const questionsById = useMemo(() => new Map(liveQuestions.map(q => [q.id, q])), [liveQuestions]);
+  const reportTotals = useMemo(() => new Map(reports.map(report => [report.questionId, report.total])), [reports]);
+
+  const editQuestion = (question: LiveQuestion) => setEditing({
+    kind: 'question',
+    question,
+    draft: question.locale === 'de'
+      ? { question: question.question, category: question.category, questionEn: question.questionEn ?? '' }
+      : { question: question.question, category: question.category },
+  });
+
+  const saveEditing = (draft: QuestionDraft) => {
+    if (!editing) return Promise.resolve();
+    return editing.kind === 'submission'
+      ? run(() => approveSubmission(editing.submission, draft), t.adminPublished)
+      : run(() => updateLiveQuestion(editing.question, draft), t.adminSaved);
+  };
+
+  const categoryLabel = (category: string) => (
+    <span
+      className="uppercase font-bold whitespace-nowrap"
+      style={{ fontSize: '12px', fontFamily: "'Factor A', sans-serif", color: getCategoryStyle(category).stripColor }}
+    >
+      {translateCategory(category, language)}
+    </span>
+  );
+
+  return (
+    <>
+      <Tabs defaultValue="submissions" className="px-4 pb-8">
+        <TabsList className="bg-white/10">
+          <TabsTrigger value="submissions">
+            {t.adminSubmissions} ({submissions.length})
+          </TabsTrigger>
+          <TabsTrigger value="questions">
+            {t.adminLiveQuestions} ({liveQuestions.filter(q => q.status !== 'retired').length})
+          </TabsTrigger>
+          <TabsTrigger value="reports">
+            {t.adminReports} ({reports.length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="submissions" className="space-y-3">
+          {submissions.length === 0 && (
+            <p className="pt-8 text-center text-white/60" style={{ fontSize: '14px' }}>{t.adminNoSubmissions}</p>
+          )}
+          {submissions.map(submission => (
+            <Card
+              key={submission.id}
+              className="border-0 bg-[#161616] text-white"
+              style={{ borderLeft: `8px solid ${getCategoryStyle(submission.category).stripColor}` }}
+            >
+              <CardContent className="space-y-2 p-4">
+                <div className="flex items-center justify-between gap-3">
+                  {categoryLabel(submission.category)}
+                  <span className="text-white/50" style={{ fontSize: '12px' }}>
+                    {submission.language.toUpperCase()} · {t.adminSubmittedBy} {submission.submitterName || t.adminAnonymous}
+                    {' · '}{new Date(submission.createdAt).toLocaleDateString(language === 'de' ? 'de-DE' : 'en-GB')}
+                  </span>
+                </div>
+                <p className="font-bold" style={{ fontSize: '16px', lineHeight: '1.25' }}>{submission.question}</p>
+              </CardContent>
+              <CardFooter className="gap-5 p-4 pt-0" style={{ fontSize: '12px', lineHeight: '20px' }}>
+                <button
+                  className={actionClassName}
+                  disabled={busy}
+                  onClick={() => setEditing({ kind: 'submission', submission, draft: { question: submission.question, category: submission.category } })}
+                >
+                  <Check className="h-3 w-3" />
+                  {t.adminApprove}
+                </button>
+                <button
+                  className={actionClassName}
+                  disabled={busy}
+                  onClick={() => run(() => rejectSubmission(submission), t.adminRejected)}
+                >
+                  <X className="h-3 w-3" />
+                  {t.adminReject}
+                </button>
+                <button
+                  className={actionClassName}
+                  onClick={() => setPreview(draftToQuestion(submission, submission.language))}
+                >
+                  <Eye className="h-3 w-3" />
+                  {t.adminPreview}
+                </button>
+              </CardFooter>
+            </Card>
+          ))}
+        </TabsContent>
+
+        <TabsContent value="questions" className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Input
+              value={filter}
+              onChange={e => setFilter(e.target.value)}
+              placeholder={t.adminFilterPlaceholder}
+              className="max-w-sm bg-transparent border-white/20 text-white placeholder:text-white/40"
+            />
+            <label className="flex items-center gap-2 cursor-pointer text-white/60" style={{ fontSize: '12px' }}>
+              {t.adminShowRetired}
+              <Switch
+                checked={showRetired}
+                onCheckedChange={setShowRetired}
+                className="data-[state=checked]:bg-white data-[state=unchecked]:bg-white/20"
+              />
+            </label>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow className="border-white/10 hover:bg-transparent">
+                <TableHead className="w-32">{t.categoryColumn}</TableHead>
+                <TableHead>{t.questionColumn}</TableHead>
+                <TableHead className="w-12" />
+                <TableHead className="w-48" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {listedQuestions.map(question => (
+                <TableRow key={question.id} className="border-white/10">
+                  <TableCell className="align-top">{categoryLabel(question.category)}</TableCell>
+                  <TableCell className={question.status === 'retired' ? 'align-top text-white/40 line-through' : 'align-top'}>
+                    {question.question}
+                  </TableCell>
+                  <TableCell className="align-top text-right">
+                    {reportTotals.has(question.id) && (
+                      <span className="inline-flex items-center gap-1 text-white/60" style={{ fontSize: '12px' }} title={t.adminReports}>
+                        <Flag className="h-3 w-3" />
+                        {reportTotals.get(question.id)}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <div className="flex items-center justify-end gap-4" style={{ fontSize: '12px', lineHeight: '20px' }}>
+                      <button
+                        className={actionClassName}
+                        disabled={busy}
+                        onClick={() => editQuestion(question)}
+                      >
+                        <Pencil className="h-3 w-3" />
+                        {t.adminEdit}
+                      </button>
+                      <button
+                        className={actionClassName}
+                        disabled={busy}
+                        onClick={() => run(() => setQuestionRetired(question, question.status !== 'retired'), t.adminSaved)}
+                      >
+                        {question.status === 'retired' ? <RotateCcw className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+                        {question.status === 'retired' ? t.adminReactivate : t.adminRetire}
+                      </button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TabsContent>
+
+        <TabsContent value="reports" className="space-y-3">
+          {reports.length === 0 && (
+            <p className="pt-8 text-center text-white/60" style={{ fontSize: '14px' }}>{t.adminNoReports}</p>
+          )}
+          {reports.map(report => {
+            const question = questionsById.get(report.questionId);
+            return (
+              <Card
+                key={report.questionId}
+                className="border-0 bg-[#161616] text-white"
+                style={question ? { borderLeft: `8px solid ${getCategoryStyle(question.category).stripColor}` } : undefined}
+              >
+                <CardContent className="space-y-2 p-4">
+                  <div className="flex items-center justify-between gap-3">
+                    {question ? categoryLabel(question.category) : (
+                      <span className="text-white/50" style={{ fontSize: '12px' }}>{t.adminNotInDatabase}</span>
+                    )}
+                    <span className="text-white/50" style={{ fontSize: '12px' }}>
+                      {report.questionId}
+                      {' · '}{new Date(report.lastReportedAt).toLocaleDateString(language === 'de' ? 'de-DE' : 'en-GB')}
+                    </span>
+                  </div>
+                  <p className="font-bold" style={{ fontSize: '16px', lineHeight: '1.25' }}>{question?.question ?? report.questionText}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {REPORT_REASONS.filter(reason => report.byReason[reason] > 0).map(reason => (
+                      <Badge key={reason} variant="secondary" className="bg-white/15 text-white hover:bg-white/15 font-normal">
+                        {t.reportReasons[reason]} · {report.byReason[reason]}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+                <CardFooter className="gap-5 p-4 pt-0" style={{ fontSize: '12px', lineHeight: '20px' }}>
+                  {question && (
+                    <>
+                      <button className={actionClassName} disabled={busy} onClick={() => editQuestion(question)}>
+                        <Pencil className="h-3 w-3" />
+                        {t.adminEdit}
+                      </button>
+                      {question.status !== 'retired' && (
+                        <button
+                          className={actionClassName}
+                          disabled={busy}
+                          onClick={() => run(() => setQuestionRetired(question, true), t.adminSaved)}
+                        >
+                          <Archive className="h-3 w-3" />
+                          {t.adminRetire}
+                        </button>
+                      )}
+                    </>
+                  )}
+                  <button
+                    className={actionClassName}
+                    disabled={busy}
+                    onClick={() => run(() => dismissReports(report.questionId), t.adminReportsDismissed)}
+                  >
+                    <CheckCheck className="h-3 w-3" />
+                    {t.adminDismissReports}
+                  </button>
+                </CardFooter>
+              </Card>
+            );
+          })}
+        </TabsContent>
+      </Tabs>
+
+      <QuestionEditorDialog
+        draft={editing?.draft ?? null}
+        onOpenChange={open => !open && setEditing(null)}
+        title={editing?.kind === 'submission' ? t.adminApprove : t.adminEdit}
+        description={editing?.kind === 'submission' && editing.submission.submitterName
+          ? `${t.adminSubmittedBy} ${editing.submission.submitterName}`
+          : undefined}
+        language={editing?.kind === 'submission' ? editing.submission.language : editing?.question.locale}
+        submitLabel={editing?.kind === 'submission' ? t.adminPublish : t.adminSave}
+        onSave={saveEditing}
+      />
+
+      <QuestionPreview question={preview} onOpenChange={open => !open && setPreview(null)} />
+    </>
+  );
+}
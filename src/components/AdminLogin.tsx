@@ -0,0 +1,86 @@
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { signInAdmin } from '@/lib/moderation';
+
+const fieldClassName = 'bg-transparent border-white/20 text-white placeholder:text-white/40';
+
+export function AdminLogin() {
+  const [failed, setFailed] = useState(false);
+  const { t } = useLanguage();
+
+  const schema = useMemo(() => z.object({
+    email: z.string().trim().email(t.adminEmailInvalid),
+    password: z.string().min(1, t.adminPasswordRequired),
+  }), [t]);
+  const form = useForm<z.infer<typeof schema>>({
+    resolver: zodResolver(schema),
+    defaultValues: { email: '', password: '' },
+  });
+
+  const onSubmit = async ({ email, password }: z.infer<typeof schema>) => {
+    setFailed(false);
+    try {
+      // The session hook picks up the new session
+      await signInAdmin(email, password);
+    } catch (error) {
+      console.warn(error);
+      setFailed(true);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-sm space-y-6 px-4 pt-16">
+      <div className="space-y-1">
+        <h1 className="text-xl font-normal">{t.adminSignIn}</h1>
+        <p className="text-white/60" style={{ fontSize: '14px' }}>{t.adminSignInDescription}</p>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t.adminEmail}</FormLabel>
+                <FormControl>
+                  <Input {...field} type="email" autoComplete="username" className={fieldClassName} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t.adminPassword}</FormLabel>
+                <FormControl>
+                  <Input {...field} type="password" autoComplete="current-password" className={fieldClassName} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {failed && <p className="text-sm font-medium text-destructive">{t.adminSignInFailed}</p>}
+
+          <button
+            type="submit"
+            disabled={form.formState.isSubmitting}
+            className="w-full rounded-full bg-white text-black hover:opacity-80 transition-opacity px-4 py-2 disabled:opacity-50"
+            style={{ fontSize: '14px', lineHeight: '20px' }}
+          >
+            {t.adminSignIn}
+          </button>
+        </form>
+      </Form>
+    </div>
+  );
+}
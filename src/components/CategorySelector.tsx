@@ -1,15 +1,32 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, type ReactNode } from 'react';
 import { X, Check } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { SubmitQuestionDialog } from '@/components/SubmitQuestionDialog';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { translateCategory } from '@/lib/questionTranslations';
+import { getCategoryStyle, sortCategories } from '@/lib/categories';
+import type { QuestionSourceKind } from '@/lib/questionSources';
+import type { Question } from '@/lib/questions';
 interface CategorySelectorProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   categories: string[];
   selectedCategories: string[];
   onCategoriesChange: (categories: string[]) => void;
+  questionSource?: QuestionSourceKind | null;
+  /** Set when the deck comes from the bundled snapshot */
+  snapshotDate?: Date | null;
+  /** Full deck, for the unseen counter */
+  questions?: Question[];
+  seenIds?: Set<string>;
+  unseenFirst?: boolean;
+  onUnseenFirstChange?: (unseenFirst: boolean) => void;
+  onResetSeen?: () => void;
+  /** Further deck settings, shown above the category list */
+  children?: ReactNode;
 }
 
 export function CategorySelector({ 
@@ -17,11 +34,20 @@ export function CategorySelector({
   onOpenChange, 
   categories, 
   selectedCategories, 
-  onCategoriesChange 
+  onCategoriesChange,
+  questionSource,
+  snapshotDate,
+  questions = [],
+  seenIds,
+  unseenFirst = false,
+  onUnseenFirstChange,
+  onResetSeen,
+  children,
 }: CategorySelectorProps) {
   const [tempSelection, setTempSelection] = useState<string[]>(selectedCategories);
   const [strokeAnimations, setStrokeAnimations] = useState<{[key: string]: boolean}>({});
   const [bounceAnimations, setBounceAnimations] = useState<{[key: string]: boolean}>({});
+  const [submitOpen, setSubmitOpen] = useState(false);
   const { language, toggleLanguage, t } = useLanguage();
 
   // Update temp selection when selectedCategories prop changes
@@ -29,47 +55,14 @@ export function CategorySelector({
     setTempSelection(selectedCategories);
   }, [selectedCategories]);
 
-  const getCategoryColors = (category: string) => {
-    switch (category.toLowerCase()) {
-      case 'fuck':
-        return 'hsl(15 100% 50%)'; // #FF4100
-      case 'connection':
-        return 'hsl(0 100% 50%)'; // #FF0000
-      case 'identity':
-        return 'hsl(328 100% 56%)'; // #FF20A2
-      case 'party':
-        return 'hsl(300 100% 50%)'; // #FF00FF
-      case 'friends':
-      case 'wer aus der runde':
-        return 'hsl(278 100% 57%)'; // #af25ff (Wer aus der Runde)
-      case 'self reflection':
-        return 'hsl(290 100% 50%)'; // #D400FF
-      case 'family':
-        return 'hsl(328 100% 56%)'; // #FF20A2
-      case 'career':
-        return 'hsl(290 100% 50%)'; // #D400FF
-      case 'travel':
-        return 'hsl(15 100% 50%)'; // #FF4100
-      case 'health':
-        return 'hsl(300 100% 50%)'; // #FF00FF
-      case 'money':
-        return 'hsl(290 100% 50%)'; // #D400FF
-      case 'love':
-        return 'hsl(15 100% 50%)'; // #FF4100
-      case 'hobby':
-        return 'hsl(328 100% 56%)'; // #FF20A2
-      case 'dreams':
-        return 'hsl(300 100% 50%)'; // #FF00FF
-      case 'fear':
-        return 'hsl(0 100% 50%)'; // #FF0000
-      case 'wisdom':
-        return 'hsl(290 100% 50%)'; // #D400FF
-      case 'future':
-        return 'hsl(15 100% 50%)'; // #FF4100
-      default:
-        return 'hsl(290 100% 50%)'; // #D400FF
-    }
-  };
+  // Unseen questions in the categories currently ticked
+  const { unseenCount, totalCount } = useMemo(() => {
+    const inSelection = questions.filter(q => tempSelection.includes(q.category));
+    return {
+      unseenCount: inSelection.filter(q => !seenIds?.has(q.id)).length,
+      totalCount: inSelection.length,
+    };
+  }, [questions, seenIds, tempSelection]);
 
   const getCategoryTextColors = (category: string) => {
     // All vibrant colors work with white text for better contrast
@@ -119,19 +112,56 @@ export function CategorySelector({
               {t.chooseCategories}
             </h2>
             
-            <button
-              onClick={handleClose}
-              className="text-white hover:bg-white/10 p-2 rounded-full transition-colors"
-            >
-              <X className="h-6 w-6" />
-            </button>
+            <div className="flex items-center gap-2">
+              <Link
+                to="/browse"
+                className="text-white font-normal hover:opacity-70 transition-opacity"
+                style={{fontSize: '14px', lineHeight: '20px'}}
+              >
+                {t.browseQuestions}
+              </Link>
+              <button
+                onClick={handleClose}
+                className="text-white hover:bg-white/10 p-2 rounded-full transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
           </div>
 
           {/* Categories List */}
           <div className="flex-1 pt-20 pb-20 space-y-3 overflow-y-auto">
-            {categories.map((category) => {
+            {/* Seen history */}
+            <div className="px-4 pb-3 space-y-2 text-white">
+              <label className="flex items-center justify-between gap-4 cursor-pointer" style={{fontSize: '14px', lineHeight: '20px'}}>
+                {t.unseenFirst}
+                <Switch
+                  checked={unseenFirst}
+                  onCheckedChange={onUnseenFirstChange}
+                  className="data-[state=checked]:bg-white data-[state=unchecked]:bg-white/20"
+                />
+              </label>
+              <div className="flex items-center justify-between gap-4 text-white/60" style={{fontSize: '12px', lineHeight: '20px'}}>
+                <span>
+                  {unseenCount} {t.unseenOf} {totalCount} {t.notSeenYet}
+                </span>
+                {onResetSeen && (
+                  <button
+                    onClick={onResetSeen}
+                    disabled={seenIds?.size === 0}
+                    className="underline hover:opacity-70 transition-opacity disabled:opacity-40 disabled:no-underline"
+                  >
+                    {t.resetSeen}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {children}
+
+            {sortCategories(categories).map((category) => {
               const isSelected = tempSelection.includes(category);
-              const colorClasses = getCategoryColors(category);
+              const colorClasses = getCategoryStyle(category).stripColor;
               const textColor = getCategoryTextColors(category);
               
               const isBouncing = bounceAnimations[category];
@@ -224,13 +254,22 @@ export function CategorySelector({
 
           {/* Bottom Links */}
           <div className="flex-shrink-0 h-20 flex items-center justify-between px-4">
-            <a 
-              href="mailto:hello@relationshipbydesign.de?subject=Friends%20App%20Frage" 
-              className="text-white font-normal"
+            <button
+              onClick={() => setSubmitOpen(true)}
+              className="text-white font-normal hover:opacity-70 transition-opacity"
               style={{fontSize: '14px', lineHeight: '20px'}}
             >
               {t.submitQuestion}
-            </a>
+            </button>
+            {questionSource && (
+              <span
+                className="text-white/50 font-normal"
+                style={{fontSize: '12px', lineHeight: '20px'}}
+              >
+                {t.questionSource}: {t.questionSources[questionSource]}
+                {snapshotDate && ` ${t.snapshotFrom} ${snapshotDate.toLocaleDateString(language === 'de' ? 'de-DE' : 'en-GB')}`}
+              </span>
+            )}
             <button
               onClick={toggleLanguage}
               className="text-white font-normal hover:opacity-70 transition-opacity"
@@ -240,6 +279,8 @@ export function CategorySelector({
             </button>
           </div>
         </div>
+
+        <SubmitQuestionDialog open={submitOpen} onOpenChange={setSubmitOpen} categories={categories} />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Heart, LayoutGrid, List, Play } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardFooter } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useQuestionDeck } from '@/hooks/use-question-deck';
+import { useStoredIds } from '@/hooks/use-stored-ids';
+import { translateCategory } from '@/lib/questionTranslations';
+import { getCategoryStyle, sortCategories } from '@/lib/categories';
+import { buildDeckLink } from '@/lib/deckLink';
+import type { Question } from '@/lib/questions';
+
+type BrowseSort = 'category' | 'alphabetical' | 'length';
+type BrowseView = 'list' | 'grid';
+
+const displayText = (question: Question, language: 'de' | 'en') =>
+  language === 'en' && question.questionEn ? question.questionEn : question.question;
+
+export function DeckBrowser() {
+  const { questions, loading } = useQuestionDeck();
+  const hidden = useStoredIds('hidden');
+  const favourites = useStoredIds('favourites');
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [sort, setSort] = useState<BrowseSort>('category');
+  const [view, setView] = useState<BrowseView>('list');
+  const { language, t } = useLanguage();
+  const navigate = useNavigate();
+
+  // The swipe view colours the page per category; browsing is always dark
+  useEffect(() => {
+    document.documentElement.style.setProperty('--page-bg', '#000000');
+    document.body.style.backgroundColor = '#000000';
+    document.querySelector('meta[name="theme-color"]')?.setAttribute('content', '#000000');
+  }, []);
+
+  const visible = useMemo(() => questions.filter(q => !hidden.ids.has(q.id)), [questions, hidden.ids]);
+  const categories = useMemo(() => sortCategories([...new Set(visible.map(q => q.category))]), [visible]);
+
+  const listed = useMemo(() => {
+    const filtered = selectedCategories.length > 0
+      ? visible.filter(q => selectedCategories.includes(q.category))
+      : visible;
+    const categoryOrder = new Map(categories.map((category, index) => [category, index]));
+    const text = (question: Question) => displayText(question, language);
+
+    return [...filtered].sort((a, b) => {
+      switch (sort) {
+        case 'alphabetical':
+          return text(a).localeCompare(text(b), language);
+        case 'length':
+          return text(a).length - text(b).length;
+        default:
+          // Stable sort keeps deck order within a category
+          return categoryOrder.get(a.category)! - categoryOrder.get(b.category)!;
+      }
+    });
+  }, [visible, categories, selectedCategories, sort, language]);
+
+  const toggleCategory = (category: string) => {
+    setSelectedCategories(prev => (prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]));
+  };
+
+  // Opens the swipe view on this question, with the browsed filter as category selection
+  const startHere = (question: Question) => {
+    navigate(buildDeckLink(question.id, selectedCategories));
+  };
+
+  const categoryLabel = (category: string) => (
+    <span
+      className="uppercase font-bold whitespace-nowrap"
+      style={{ fontSize: '12px', fontFamily: "'Factor A', sans-serif", color: getCategoryStyle(category).stripColor }}
+    >
+      {translateCategory(category, language)}
+    </span>
+  );
+
+  const startButton = (question: Question) => (
+    <button
+      onClick={() => startHere(question)}
+      className="flex items-center gap-1 whitespace-nowrap text-white hover:opacity-70 transition-opacity"
+      style={{ fontSize: '12px', lineHeight: '20px' }}
+    >
+      <Play className="h-3 w-3" fill="currentColor" />
+      {t.startHere}
+    </button>
+  );
+
+  return (
+    <div className="h-[100svh] overflow-y-auto bg-black text-white">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-black/90 backdrop-blur px-4 pt-4 pb-3 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <Link to="/" className="flex items-center gap-2 hover:opacity-70 transition-opacity" style={{ fontSize: '14px' }}>
+            <ArrowLeft className="h-4 w-4" />
+            {t.back}
+          </Link>
+          <h1 className="text-xl font-normal">{t.browseQuestions}</h1>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={view}
+            onValueChange={value => value && setView(value as BrowseView)}
+          >
+            <ToggleGroupItem value="list" aria-label={t.listView}>
+              <List className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="grid" aria-label={t.gridView}>
+              <LayoutGrid className="h-4 w-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {/* Category chips, coloured like the category strips */}
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {categories.map(category => {
+            const active = selectedCategories.includes(category);
+            const color = getCategoryStyle(category).stripColor;
+            return (
+              <button
+                key={category}
+                onClick={() => toggleCategory(category)}
+                aria-pressed={active}
+                className="shrink-0 rounded-full px-3 py-1 font-bold uppercase transition-colors"
+                style={{
+                  fontSize: '12px',
+                  fontFamily: "'Factor A', sans-serif",
+                  backgroundColor: active ? color : 'transparent',
+                  outline: `1px solid ${color}`,
+                }}
+              >
+                {translateCategory(category, language)}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between gap-4 text-white/60" style={{ fontSize: '12px' }}>
+          <span>{listed.length} {t.questionsLabel}</span>
+          <Select value={sort} onValueChange={value => setSort(value as BrowseSort)}>
+            <SelectTrigger className="h-8 w-auto gap-2 border-white/20 bg-transparent text-white" style={{ fontSize: '12px' }}>
+              <span className="text-white/60">{t.sortBy}:</span>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="category">{t.sortOptions.category}</SelectItem>
+              <SelectItem value="alphabetical">{t.sortOptions.alphabetical}</SelectItem>
+              <SelectItem value="length">{t.sortOptions.length}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? null : view === 'list' ? (
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10 hover:bg-transparent">
+              <TableHead className="w-32">{t.categoryColumn}</TableHead>
+              <TableHead>{t.questionColumn}</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {listed.map(question => (
+              <TableRow key={question.id} className="border-white/10">
+                <TableCell className="align-top">{categoryLabel(question.category)}</TableCell>
+                <TableCell className="align-top">
+                  {displayText(question, language)}
+                  {favourites.ids.has(question.id) && (
+                    <Heart className="inline h-3 w-3 ml-2 text-white/60" fill="currentColor" aria-label={t.favourites} />
+                  )}
+                </TableCell>
+                <TableCell className="align-top">{startButton(question)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="grid gap-3 px-4 pb-8 sm:grid-cols-2 lg:grid-cols-3">
+          {listed.map(question => (
+            <Card
+              key={question.id}
+              className="flex flex-col overflow-hidden border-0 bg-[#161616] text-white"
+              style={{ borderLeft: `8px solid ${getCategoryStyle(question.category).stripColor}` }}
+            >
+              <CardContent className="flex-1 space-y-2 p-4">
+                {categoryLabel(question.category)}
+                <p className="font-bold" style={{ fontSize: '16px', lineHeight: '1.25' }}>
+                  {displayText(question, language)}
+                </p>
+              </CardContent>
+              <CardFooter className="justify-between p-4 pt-0">
+                {startButton(question)}
+                {favourites.ids.has(question.id) && (
+                  <Heart className="h-3 w-3 text-white/60" fill="currentColor" aria-label={t.favourites} />
+                )}
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { countReportIssues, type DeckReport } from '@/lib/questionSchema';
+
+interface DeckDiagnosticsProps {
+  report: DeckReport;
+  source: string | null;
+  questionCount: number;
+}
+
+// Dev-only panel listing data-quality issues of the loaded deck
+export function DeckDiagnostics({ report, source, questionCount }: DeckDiagnosticsProps) {
+  const [open, setOpen] = useState(false);
+  const issueCount = countReportIssues(report);
+
+  const sections = [
+    {
+      title: `Rejected rows (${report.rejected.length})`,
+      items: report.rejected.map(({ line, message }) => `Line ${line}: ${message}`),
+    },
+    {
+      title: `Unknown categories (${report.unknownCategories.length})`,
+      items: report.unknownCategories.map(({ category, lines }) => `"${category}" – lines ${lines.join(', ')}`),
+    },
+    {
+      title: `Duplicates (${report.duplicates.length})`,
+      items: report.duplicates.map(({ id, question, lines }) => `${id} „${question}" – lines ${lines.join(', ')}`),
+    },
+    {
+      title: `Missing English text (${report.missingEnglish.length})`,
+      items: report.missingEnglish.map(({ line, question }) => `Line ${line}: „${question}"`),
+    },
+  ];
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-2 right-2 z-[60] rounded-full bg-black/80 px-3 py-1 text-white font-mono"
+        style={{ fontSize: '11px' }}
+      >
+        deck: {questionCount} · {issueCount} issue{issueCount === 1 ? '' : 's'}
+      </button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[80vh] overflow-y-auto text-white">
+          <DialogHeader>
+            <DialogTitle>Deck diagnostics</DialogTitle>
+            <DialogDescription>
+              {questionCount} questions from {source ?? 'no source'}
+            </DialogDescription>
+          </DialogHeader>
+          {sections.map(section => (
+            <div key={section.title}>
+              <h3 className="font-bold text-sm mb-1">{section.title}</h3>
+              {section.items.length === 0 ? (
+                <p className="text-xs text-muted-foreground">None</p>
+              ) : (
+                <ul className="text-xs font-mono space-y-1">
+                  {section.items.map((item, index) => (
+                    <li key={index} className="break-words">{item}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,126 @@
+import { useMemo, useRef, useState } from 'react';
+import { getCategoryStyle } from '@/lib/categories';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface DeckScrubberProps {
+  /** Category of every card in play order */
+  categories: string[];
+  currentIndex: number;
+  /** Called on release with the card to jump to */
+  onScrub: (index: number) => void;
+}
+
+/**
+ * Thin bar with one segment per card, coloured by category, plus a
+ * "12 / 87" counter. Drag or tap it to jump; the jump happens on release.
+ * When focused, the arrow keys, Page Up/Down, Home and End jump right away.
+ */
+export function DeckScrubber({ categories, currentIndex, onScrub }: DeckScrubberProps) {
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+  const { t } = useLanguage();
+  const total = categories.length;
+
+  // One hard-stop gradient instead of an element per card, so long decks stay cheap
+  const background = useMemo(() => {
+    if (total === 0) return 'transparent';
+    const stops = categories.map((category, index) => {
+      const color = getCategoryStyle(category).stripColor;
+      return `${color} ${(index / total) * 100}% ${((index + 1) / total) * 100}%`;
+    });
+    return `linear-gradient(to right, ${stops.join(', ')})`;
+  }, [categories, total]);
+
+  if (total < 2) return null;
+
+  const shownIndex = Math.min(previewIndex ?? currentIndex, total - 1);
+  const indexAt = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 0.9999);
+    return Math.floor(ratio * total);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    barRef.current?.setPointerCapture(e.pointerId);
+    setPreviewIndex(indexAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (previewIndex === null) return;
+    setPreviewIndex(indexAt(e.clientX));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (previewIndex === null) return;
+    const target = indexAt(e.clientX);
+    setPreviewIndex(null);
+    if (target !== currentIndex) onScrub(target);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const page = Math.max(1, Math.round(total / 10));
+    const steps: Record<string, number> = {
+      ArrowLeft: currentIndex - 1,
+      ArrowDown: currentIndex - 1,
+      ArrowRight: currentIndex + 1,
+      ArrowUp: currentIndex + 1,
+      PageDown: currentIndex - page,
+      PageUp: currentIndex + page,
+      Home: 0,
+      End: total - 1,
+    };
+    if (!(e.key in steps)) return;
+    // Don't let the card's own arrow-key navigation run as well
+    e.preventDefault();
+    e.stopPropagation();
+    const target = Math.min(Math.max(steps[e.key], 0), total - 1);
+    if (target !== currentIndex) onScrub(target);
+  };
+
+  return (
+    <div
+      className="absolute left-4 right-4 z-[60] flex items-center gap-3 mx-auto"
+      style={{ top: 'max(44px, calc(10vh - 20px))', maxWidth: '500px' }}
+      // Keep the card from starting a swipe underneath
+      onTouchStart={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+      onClick={e => e.stopPropagation()}
+    >
+      <div
+        ref={barRef}
+        role="slider"
+        tabIndex={0}
+        aria-label={t.deckProgress}
+        aria-valuemin={1}
+        aria-valuemax={total}
+        aria-valuenow={shownIndex + 1}
+        aria-valuetext={`${shownIndex + 1} / ${total}`}
+        className="relative flex-1 h-5 flex items-center cursor-pointer touch-none rounded-full outline-none focus-visible:ring-2 focus-visible:ring-black"
+        onKeyDown={handleKeyDown}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setPreviewIndex(null)}
+      >
+        <div className="relative w-full h-1 rounded-full overflow-hidden" style={{ background }}>
+          {/* Cards already played are dimmed */}
+          <div
+            className="absolute inset-y-0 left-0 bg-black/50"
+            style={{ width: `${(Math.min(currentIndex, total) / total) * 100}%` }}
+          />
+        </div>
+        <div
+          className="absolute h-3 w-1 rounded-full bg-black"
+          style={{
+            left: `calc(${((shownIndex + 0.5) / total) * 100}% - 2px)`,
+            transition: previewIndex === null ? 'left 300ms ease-out' : 'none',
+          }}
+        />
+      </div>
+      <span className="text-black tabular-nums shrink-0" style={{ fontSize: '12px', lineHeight: '16px' }}>
+        {shownIndex + 1} / {total}
+      </span>
+    </div>
+  );
+}
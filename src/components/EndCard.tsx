@@ -0,0 +1,52 @@
+import { Infinity as InfinityIcon, ListPlus, RotateCcw, Sparkles } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface EndCardProps {
+  questionCount: number;
+  onReshuffle: () => void;
+  onAddCategories: () => void;
+  onEndlessLoop: () => void;
+  onShowRecap: () => void;
+}
+
+export function EndCard({ questionCount, onReshuffle, onAddCategories, onEndlessLoop, onShowRecap }: EndCardProps) {
+  const { t } = useLanguage();
+
+  const actions = [
+    { label: t.reshuffle, icon: RotateCcw, onClick: onReshuffle },
+    { label: t.addCategories, icon: ListPlus, onClick: onAddCategories },
+    { label: t.endlessLoop, icon: InfinityIcon, onClick: onEndlessLoop },
+    { label: t.viewRecap, icon: Sparkles, onClick: onShowRecap },
+  ];
+
+  return (
+    <div className="h-full flex flex-col justify-center px-8 lg:px-10 text-white">
+      <h1
+        className="text-[32px] md:text-4xl font-bold"
+        style={{ lineHeight: '1.15', fontFamily: "'Factor A', sans-serif" }}
+      >
+        {t.endOfDeck}
+      </h1>
+      <p className="mt-3 text-white/70" style={{ fontSize: '14px', lineHeight: '20px' }}>
+        {questionCount} {t.questionsThisRound}
+      </p>
+
+      <div className="mt-10 flex flex-col gap-3">
+        {actions.map(({ label, icon: Icon, onClick }) => (
+          <button
+            key={label}
+            onClick={(e) => {
+              e.stopPropagation();
+              onClick();
+            }}
+            className="flex items-center gap-3 rounded-full bg-white/15 hover:bg-white/25 transition-colors px-5 py-3 text-left"
+            style={{ fontSize: '14px', lineHeight: '20px' }}
+          >
+            <Icon className="w-4 h-4 shrink-0" strokeWidth={2} />
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
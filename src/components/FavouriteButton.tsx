@@ -0,0 +1,32 @@
+import { Heart } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface FavouriteButtonProps {
+  isFavourite: boolean;
+  onToggle: () => void;
+}
+
+export function FavouriteButton({ isFavourite, onToggle }: FavouriteButtonProps) {
+  const { t } = useLanguage();
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onToggle();
+  };
+
+  return (
+    <button
+      className="hover:opacity-70 transition-opacity"
+      onClick={handleClick}
+      aria-pressed={isFavourite}
+      aria-label={isFavourite ? t.removeFavourite : t.addFavourite}
+      title={isFavourite ? t.removeFavourite : t.addFavourite}
+    >
+      <Heart
+        className="w-5 h-5 text-white"
+        strokeWidth={2}
+        fill={isFavourite ? 'currentColor' : 'none'}
+      />
+    </button>
+  );
+}
@@ -0,0 +1,107 @@
+import { useRef } from 'react';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { Question } from '@/lib/questions';
+import { buildFavouritesLink, favouritesToJson, parseFavouritesJson } from '@/lib/favourites';
+import { downloadFile } from '@/lib/download';
+
+interface FavouritesPanelProps {
+  questions: Question[];
+  favouriteIds: Set<string>;
+  favouritesOnly: boolean;
+  onFavouritesOnlyChange: (favouritesOnly: boolean) => void;
+  /** IDs or question texts read from an exported file */
+  onImport: (refs: string[]) => void;
+}
+
+export function FavouritesPanel({ questions, favouriteIds, favouritesOnly, onFavouritesOnlyChange, onImport }: FavouritesPanelProps) {
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const hasFavourites = favouriteIds.size > 0;
+
+  const handleShare = async () => {
+    const url = buildFavouritesLink(favouriteIds);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: `Friends App – ${t.favourites}`, url });
+        return;
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+      }
+    }
+    navigator.clipboard.writeText(url).then(() => {
+      toast({
+        title: t.linkCopied,
+        description: t.linkCopiedDescription,
+      });
+    });
+  };
+
+  const handleExport = () => {
+    downloadFile('friends-favourites.json', favouritesToJson(favouriteIds, questions));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      onImport(parseFavouritesJson(await file.text()));
+    } catch (error) {
+      console.warn('Favourites: could not read import file', error);
+      toast({
+        title: t.importFailed,
+        description: t.importFailedDescription,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="px-4 pb-3 space-y-2 text-white">
+      <label className="flex items-center justify-between gap-4 cursor-pointer" style={{fontSize: '14px', lineHeight: '20px'}}>
+        <span>
+          {t.favouritesOnly} <span className="text-white/60">({favouriteIds.size})</span>
+        </span>
+        <Switch
+          checked={favouritesOnly}
+          onCheckedChange={onFavouritesOnlyChange}
+          disabled={!hasFavourites && !favouritesOnly}
+          className="data-[state=checked]:bg-white data-[state=unchecked]:bg-white/20"
+        />
+      </label>
+      <div className="flex items-center gap-4 text-white/60" style={{fontSize: '12px', lineHeight: '20px'}}>
+        <button
+          onClick={handleShare}
+          disabled={!hasFavourites}
+          className="underline hover:opacity-70 transition-opacity disabled:opacity-40 disabled:no-underline"
+        >
+          {t.shareFavourites}
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={!hasFavourites}
+          className="underline hover:opacity-70 transition-opacity disabled:opacity-40 disabled:no-underline"
+        >
+          {t.exportFavourites}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="underline hover:opacity-70 transition-opacity"
+        >
+          {t.importFavourites}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { translateCategory } from '@/lib/questionTranslations';
+import type { Question } from '@/lib/questions';
+
+interface HiddenQuestionsPanelProps {
+  questions: Question[];
+  hiddenIds: Set<string>;
+  onRestore: (questionIds: string[]) => void;
+}
+
+export function HiddenQuestionsPanel({ questions, hiddenIds, onRestore }: HiddenQuestionsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { language, t } = useLanguage();
+
+  // IDs that no longer exist in the deck are left alone, they can't be shown anyway
+  const hiddenQuestions = useMemo(
+    () => questions.filter(q => hiddenIds.has(q.id)),
+    [questions, hiddenIds]
+  );
+
+  if (hiddenQuestions.length === 0) return null;
+
+  return (
+    <div className="px-4 pb-3 space-y-2 text-white">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="flex w-full items-center justify-between gap-4 hover:opacity-70 transition-opacity"
+        style={{fontSize: '14px', lineHeight: '20px'}}
+        aria-expanded={expanded}
+      >
+        <span>
+          {t.hiddenQuestions} <span className="text-white/60">({hiddenQuestions.length})</span>
+        </span>
+        <ChevronDown
+          className="h-4 w-4"
+          style={{ transform: expanded ? 'rotate(180deg)' : 'none', transition: 'transform 150ms ease-out' }}
+        />
+      </button>
+
+      {expanded && (
+        <ul className="space-y-2" style={{fontSize: '12px', lineHeight: '16px'}}>
+          {hiddenQuestions.map(question => (
+            <li key={question.id} className="flex items-start justify-between gap-4">
+              <span className="text-white/80">
+                <span className="uppercase text-white/50 mr-2">{translateCategory(question.category, language)}</span>
+                {language === 'en' && question.questionEn ? question.questionEn : question.question}
+              </span>
+              <button
+                onClick={() => onRestore([question.id])}
+                className="shrink-0 underline text-white/60 hover:opacity-70 transition-opacity"
+              >
+                {t.restore}
+              </button>
+            </li>
+          ))}
+          {hiddenQuestions.length > 1 && (
+            <li>
+              <button
+                onClick={() => onRestore(hiddenQuestions.map(q => q.id))}
+                className="underline text-white/60 hover:opacity-70 transition-opacity"
+              >
+                {t.restoreAll}
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { EyeOff } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface HideQuestionButtonProps {
+  onHide: () => void;
+}
+
+export function HideQuestionButton({ onHide }: HideQuestionButtonProps) {
+  const { t } = useLanguage();
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onHide();
+  };
+
+  return (
+    <button
+      className="hover:opacity-70 transition-opacity"
+      onClick={handleClick}
+      aria-label={t.hideQuestion}
+      title={t.hideQuestion}
+    >
+      <EyeOff className="w-5 h-5 text-white" strokeWidth={2} />
+    </button>
+  );
+}
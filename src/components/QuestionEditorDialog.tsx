@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Eye } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QuestionPreview } from '@/components/QuestionPreview';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { translateCategory } from '@/lib/questionTranslations';
+import { categories as registry, normalizeCategory } from '@/lib/categories';
+import { createSubmissionSchema, QUESTION_MAX_LENGTH } from '@/lib/questionSubmissions';
+import { draftToQuestion, type QuestionDraft } from '@/lib/moderation';
+import type { Question } from '@/lib/questions';
+
+interface QuestionEditorDialogProps {
+  /** Question being edited; the dialog is closed while null */
+  draft: QuestionDraft | null;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  /** Language the text is written in, for the preview */
+  language?: 'de' | 'en';
+  submitLabel: string;
+  onSave: (draft: QuestionDraft) => Promise<void>;
+}
+
+const fieldClassName = 'bg-transparent border-white/20 text-white placeholder:text-white/40';
+
+export function QuestionEditorDialog({
+  draft,
+  onOpenChange,
+  title,
+  description,
+  language: textLanguage = 'de',
+  submitLabel,
+  onSave,
+}: QuestionEditorDialogProps) {
+  const [preview, setPreview] = useState<Question | null>(null);
+  const { language, t } = useLanguage();
+
+  const schema = useMemo(
+    () => createSubmissionSchema(t.submissionErrors)
+      .pick({ question: true, category: true })
+      .extend({ questionEn: z.string().trim().max(QUESTION_MAX_LENGTH, t.submissionErrors.questionTooLong).optional() }),
+    [t]
+  );
+  const form = useForm<QuestionDraft>({
+    resolver: zodResolver(schema),
+    defaultValues: { question: '', category: '', questionEn: undefined },
+  });
+
+  // Registry slugs, plus the stored value when it is not a known category
+  const draftCategory = draft ? normalizeCategory(draft.category) ?? draft.category : '';
+  const categoryOptions = useMemo(() => {
+    const slugs = registry.map(category => category.slug);
+    return draftCategory && !slugs.includes(draftCategory) ? [...slugs, draftCategory] : slugs;
+  }, [draftCategory]);
+
+  useEffect(() => {
+    if (draft) form.reset({ ...draft, category: draftCategory });
+  }, [draft, draftCategory, form]);
+
+  return (
+    <Dialog open={draft !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#161616] text-white border-0 max-h-[90svh] overflow-y-auto [&>button]:text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white">{title}</DialogTitle>
+          {description && <DialogDescription className="text-white/60">{description}</DialogDescription>}
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="question"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t.questionColumn}</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={4} maxLength={QUESTION_MAX_LENGTH} className={fieldClassName} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t.categoryColumn}</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className={fieldClassName}>
+                        <SelectValue placeholder={t.submissionCategoryPlaceholder} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {categoryOptions.map(category => (
+                        <SelectItem key={category} value={category}>
+                          {translateCategory(category, language)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {draft?.questionEn !== undefined && (
+              <FormField
+                control={form.control}
+                name="questionEn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t.adminEnglishText}</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={3} maxLength={QUESTION_MAX_LENGTH} className={fieldClassName} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setPreview(draftToQuestion(form.getValues(), textLanguage))}
+                className="flex flex-1 items-center justify-center gap-2 rounded-full bg-white/15 hover:bg-white/25 transition-colors px-4 py-2"
+                style={{ fontSize: '14px', lineHeight: '20px' }}
+              >
+                <Eye className="h-4 w-4" />
+                {t.adminPreview}
+              </button>
+              <button
+                type="submit"
+                disabled={form.formState.isSubmitting}
+                className="flex-1 rounded-full bg-white text-black hover:opacity-80 transition-opacity px-4 py-2 disabled:opacity-50"
+                style={{ fontSize: '14px', lineHeight: '20px' }}
+              >
+                {submitLabel}
+              </button>
+            </div>
+          </form>
+        </Form>
+
+        <QuestionPreview question={preview} onOpenChange={open => !open && setPreview(null)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
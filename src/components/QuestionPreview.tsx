@@ -0,0 +1,53 @@
+import { X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { QuizCard } from '@/components/QuizCard';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getCategoryStyle } from '@/lib/categories';
+import type { Question } from '@/lib/questions';
+
+interface QuestionPreviewProps {
+  question: Question | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const noop = () => {};
+
+/**
+ * Full-screen preview of a single card, rendered by the swipe view's own
+ * QuizCard so category colours and card themes match what players will see
+ */
+export function QuestionPreview({ question, onOpenChange }: QuestionPreviewProps) {
+  const { t } = useLanguage();
+
+  return (
+    <Dialog open={question !== null} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="w-screen h-screen max-w-none border-0 rounded-none p-0 overflow-hidden [&>button]:hidden"
+        style={{ backgroundColor: question ? getCategoryStyle(question.category).bodyColor : undefined }}
+      >
+        <DialogTitle className="sr-only">{t.adminPreview}</DialogTitle>
+        <DialogDescription className="sr-only">{question?.question}</DialogDescription>
+        {question && (
+          <QuizCard
+            currentQuestion={question}
+            nextQuestion={null}
+            prevQuestion={null}
+            nextQuestion2={null}
+            prevQuestion2={null}
+            onSwipeLeft={noop}
+            onSwipeRight={noop}
+            questionIndex={0}
+            totalQuestions={1}
+          />
+        )}
+        <button
+          onClick={() => onOpenChange(false)}
+          className="absolute right-4 top-4 z-[70] text-white hover:bg-white/10 p-2 rounded-full transition-colors"
+          aria-label={t.back}
+        >
+          <X className="h-6 w-6" />
+        </button>
+      </DialogContent>
+    </Dialog>
+  );
+}
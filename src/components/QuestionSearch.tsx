@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { translateCategory } from '@/lib/questionTranslations';
+import { getCategoryStyle, sortCategories } from '@/lib/categories';
+import { createSearchIndex, searchQuestions } from '@/lib/questionSearch';
+import type { Question } from '@/lib/questions';
+
+interface QuestionSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  questions: Question[];
+  onSelect: (question: Question) => void;
+}
+
+export function QuestionSearch({ open, onOpenChange, questions, onSelect }: QuestionSearchProps) {
+  const [query, setQuery] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<string[]>([]);
+  const { language, t } = useLanguage();
+
+  const index = useMemo(() => createSearchIndex(questions), [questions]);
+  const categories = useMemo(() => sortCategories([...new Set(questions.map(q => q.category))]), [questions]);
+  const results = useMemo(
+    () => searchQuestions(index, query, { categories: categoryFilter }),
+    [index, query, categoryFilter]
+  );
+
+  // Start fresh every time the palette opens
+  useEffect(() => {
+    if (open) {
+      setQuery('');
+      setCategoryFilter([]);
+    }
+  }, [open]);
+
+  const toggleCategory = (category: string) => {
+    setCategoryFilter(prev => (prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg top-[10%] translate-y-0 max-w-[calc(100vw-32px)] sm:max-w-lg rounded-2xl">
+        <DialogTitle className="sr-only">{t.searchQuestions}</DialogTitle>
+        <DialogDescription className="sr-only">{t.searchQuestionsDescription}</DialogDescription>
+        {/* Matching is done by questionSearch.ts, cmdk only handles the keyboard */}
+        <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-3 [&_[cmdk-item]]:py-3">
+          <CommandInput value={query} onValueChange={setQuery} placeholder={t.searchPlaceholder} />
+
+          {categories.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto px-3 py-2 border-b">
+              {categories.map(category => {
+                const active = categoryFilter.includes(category);
+                return (
+                  <button
+                    key={category}
+                    onClick={() => toggleCategory(category)}
+                    aria-pressed={active}
+                    className="shrink-0 rounded-full px-3 py-1 text-xs font-bold uppercase transition-colors"
+                    style={{
+                      fontFamily: "'Factor A', sans-serif",
+                      backgroundColor: active ? getCategoryStyle(category).stripColor : 'transparent',
+                      color: active ? 'white' : undefined,
+                      outline: `1px solid ${getCategoryStyle(category).stripColor}`,
+                    }}
+                  >
+                    {translateCategory(category, language)}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <CommandList className="max-h-[60svh]">
+            <CommandEmpty>{t.noSearchResults}</CommandEmpty>
+            {results.map(question => (
+              <CommandItem
+                key={question.id}
+                value={question.id}
+                onSelect={() => onSelect(question)}
+                className="flex items-start gap-3"
+              >
+                <span
+                  className="mt-1.5 h-2 w-2 shrink-0 rounded-full"
+                  style={{ backgroundColor: getCategoryStyle(question.category).stripColor }}
+                />
+                <span className="flex-1">
+                  {language === 'en' && question.questionEn ? question.questionEn : question.question}
+                  <span className="block text-xs text-muted-foreground uppercase mt-1">
+                    {translateCategory(question.category, language)}
+                  </span>
+                </span>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
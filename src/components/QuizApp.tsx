@@ -1,56 +1,38 @@
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Heart, History, Search } from 'lucide-react';
 import { QuizCard } from './QuizCard';
 import { CategorySelector } from './CategorySelector';
+import { FavouritesPanel } from './FavouritesPanel';
+import { HiddenQuestionsPanel } from './HiddenQuestionsPanel';
+import { EndCard } from './EndCard';
+import { SessionRecap } from './SessionRecap';
+import { QuestionSearch } from './QuestionSearch';
+import { DeckDiagnostics } from './DeckDiagnostics';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import type { Question } from '@/lib/questions';
+import { loadFromSources, getSnapshotDate, type QuestionSourceKind } from '@/lib/questionSources';
+import type { DeckReport } from '@/lib/questionSchema';
+import { computeDeckVersion, mergeDeckOrder, readCachedDeck, writeCachedDeck } from '@/lib/questionCache';
+import { registerServiceWorker } from '@/lib/serviceWorker';
+import { watchSubmissionQueue } from '@/lib/questionSubmissions';
+import { reportQuestion, type ReportReason } from '@/lib/questionReports';
+import { findQuestionIndexForLink } from '@/lib/questionIds';
+import { getCategoryStyle } from '@/lib/categories';
+import { setDeckThemes } from '@/lib/cardTheme';
+import { createSeededRandom, generateSeed, readSeedFromUrl, writeSeedToUrl } from '@/lib/shuffle';
+import { getSequenceOptionsFromEnv, shuffleDeck } from '@/lib/deckSequencer';
+import { readStoredFlag, writeStoredFlag } from '@/lib/localStore';
+import { useStoredIds } from '@/hooks/use-stored-ids';
+import { useSessionLog } from '@/hooks/use-session-log';
+import { readFavouritesFromUrl, removeFavouritesFromUrl, resolveFavourites } from '@/lib/favourites';
+import { endCard } from '@/lib/endCard';
+import { readCategoriesFromUrl, removeCategoriesFromUrl } from '@/lib/deckLink';
 
-interface Question {
-  question: string;
-  questionEn: string;
-  category: string;
-}
-
-const getCategoryBodyColor = (category: string) => {
-  switch (category.toLowerCase()) {
-    case 'fuck':
-      return 'hsl(15, 100%, 50%)'; // #FF4100
-    case 'friends':
-    case 'wer aus der runde':
-      return 'hsl(278, 100%, 57%)'; // #af25ff
-    case 'self reflection':
-      return 'hsl(290, 100%, 50%)'; // #D400FF
-    case 'party':
-      return 'hsl(300, 100%, 50%)'; // #FF00FF
-    case 'family':
-      return 'hsl(328, 100%, 56%)'; // #FF20A2
-    case 'connection':
-      return 'hsl(0, 100%, 50%)'; // #FF0000
-    case 'identity':
-      return 'hsl(328, 100%, 56%)'; // #FF20A2
-    case 'career':
-      return 'hsl(290, 100%, 50%)'; // #D400FF
-    case 'travel':
-      return 'hsl(15, 100%, 50%)'; // #FF4100
-    case 'health':
-      return 'hsl(300, 100%, 50%)'; // #FF00FF
-    case 'money':
-      return 'hsl(290, 100%, 50%)'; // #D400FF
-    case 'love':
-      return 'hsl(15, 100%, 50%)'; // #FF4100
-    case 'hobby':
-      return 'hsl(328, 100%, 56%)'; // #FF20A2
-    case 'dreams':
-      return 'hsl(300, 100%, 50%)'; // #FF00FF
-    case 'fear':
-      return 'hsl(0, 100%, 50%)'; // #FF0000
-    case 'wisdom':
-      return 'hsl(290, 100%, 50%)'; // #D400FF
-    case 'future':
-      return 'hsl(15, 100%, 50%)'; // #FF4100
-    default:
-      return 'hsl(290, 100%, 50%)'; // Default matches strip palette
-  }
-};
+// Category spacing and weights, see deckSequencer.ts
+const sequenceOptions = getSequenceOptionsFromEnv();
 
 export function QuizApp() {
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -61,6 +43,9 @@ export function QuizApp() {
   const [categorySelectorOpen, setCategorySelectorOpen] = useState(false);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
+  const [questionSource, setQuestionSource] = useState<QuestionSourceKind | null>(null);
+  const [deckVersion, setDeckVersion] = useState<string | null>(null);
+  const [deckReport, setDeckReport] = useState<DeckReport | null>(null);
   const [logoStretch, setLogoStretch] = useState(true); // Start with stretch active
   const [dragProgress, setDragProgress] = useState(0);
   const [targetCategory, setTargetCategory] = useState<string>('');
@@ -69,147 +54,387 @@ export function QuizApp() {
   const [isLogoAnimating, setIsLogoAnimating] = useState(false);
   const [lockedTransformOrigin, setLockedTransformOrigin] = useState<string | null>(null);
   const [initialIndexApplied, setInitialIndexApplied] = useState(false);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  // Shared via the URL so everyone with the same link gets the same order
+  const [seed, setSeed] = useState(() => readSeedFromUrl() ?? generateSeed());
+  const [unseenFirst, setUnseenFirst] = useState(() => readStoredFlag('unseen-first'));
+  const seen = useStoredIds('seen');
+  const favourites = useStoredIds('favourites');
+  // "Never show again", filtered out before sequencing
+  const hidden = useStoredIds('hidden');
+  // Reported from the card context menu; one report per question and device
+  const reported = useStoredIds('reported');
+  // Plays only the favourites, through the same card UI
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  // Endless loop: another sequenced round is appended before the deck runs out
+  const [endless, setEndless] = useState(false);
+  const [recapOpen, setRecapOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  // Card picked in the search, handed to QuizCard to slide to
+  const [jumpRequest, setJumpRequest] = useState<{ question: Question; index: number; key: number } | null>(null);
+  // Cards viewed this session with time on card, for the recap
+  const session = useSessionLog();
   const logoResetTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const { t, language } = useLanguage();
+  const { toast } = useToast();
+  // Latest deck position, read by the background refresh which outlives renders
+  const deckStateRef = useRef({ questions, currentIndex, availableCategories });
+  // Question to stay on when the deck is swapped underneath the player
+  const preserveQuestionIdRef = useRef<string | null>(null);
+  // Read when sequencing; marking a card as seen must not reorder the deck
+  const seenIdsRef = useRef(seen.ids);
+  seenIdsRef.current = seen.ids;
+  // Same for favourites: unfavouriting a card keeps it in the current favourites deck
+  const favouriteIdsRef = useRef(favourites.ids);
+  favouriteIdsRef.current = favourites.ids;
+  const linkFavouritesHandledRef = useRef(false);
+  const loopRoundRef = useRef(0);
+  // Set by "add categories" on the end card while the selector is open: extend
+  // the deck instead of restarting it
+  const extendDeckRef = useRef(false);
+  // Hiding and restoring edit the playing deck directly instead of reshuffling it
+  const hiddenIdsRef = useRef(hidden.ids);
+  hiddenIdsRef.current = hidden.ids;
+
+  useEffect(() => {
+    deckStateRef.current = { questions, currentIndex, availableCategories };
+  }, [questions, currentIndex, availableCategories]);
+
+  useEffect(() => {
+    writeSeedToUrl(seed);
+  }, [seed]);
+
+  useEffect(() => {
+    writeStoredFlag('unseen-first', unseenFirst);
+  }, [unseenFirst]);
+
+  // Seen history: a card counts as seen once it has been the current card
+  const currentQuestionId = questions[currentIndex]?.id;
+  const addSeen = seen.add;
+  useEffect(() => {
+    if (loading || !initialIndexApplied || !currentQuestionId) return;
+    addSeen(currentQuestionId);
+  }, [loading, initialIndexApplied, currentQuestionId, addSeen]);
+
+  // Session log: times the current card; the end card pauses it
+  const currentQuestion = questions[currentIndex] ?? null;
+  const viewInSession = session.view;
+  useEffect(() => {
+    if (loading || !initialIndexApplied) return;
+    viewInSession(currentQuestion, currentQuestion ? favouriteIdsRef.current.has(currentQuestion.id) : false);
+  }, [loading, initialIndexApplied, currentQuestion, viewInSession]);
+
+  // The end card sits after the last question, see endCard.ts
+  const deck = useMemo(() => (questions.length > 0 ? [...questions, endCard] : []), [questions]);
+
+  useEffect(() => {
+    if (!endless || questions.length === 0 || currentIndex < questions.length - 3) return;
+    // Next round of the same questions, in a fresh but reproducible order
+    loopRoundRef.current += 1;
+    const unique = Array.from(new Map(questions.map(q => [q.id, q])).values());
+    const round = shuffleDeck(unique, `${seed}:${loopRoundRef.current}`, sequenceOptions).questions;
+    setQuestions(prev => [...prev, ...round]);
+  }, [endless, currentIndex, questions, seed]);
+
+  // Merges imported favourites; refs are IDs or question texts
+  const { ids: favouriteIds, replace: replaceFavourites } = favourites;
+  const importFavourites = useCallback((refs: string[]) => {
+    const ids = resolveFavourites(refs, allQuestions);
+    if (ids.length === 0) {
+      toast({
+        title: t.importFailed,
+        description: t.importFailedDescription,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const added = ids.filter(id => !favouriteIds.has(id)).length;
+    replaceFavourites([...favouriteIds, ...ids]);
+    toast({
+      title: t.favouritesImported,
+      description: `${added} ${t.newFavourites}`,
+    });
+  }, [allQuestions, favouriteIds, replaceFavourites, t, toast]);
+
+  // Favourites shared as a link (?favs=...) are only imported after asking
+  useEffect(() => {
+    if (loading || allQuestions.length === 0 || linkFavouritesHandledRef.current) return;
+    linkFavouritesHandledRef.current = true;
+
+    const refs = readFavouritesFromUrl();
+    if (refs.length === 0) return;
+    removeFavouritesFromUrl();
+    toast({
+      title: t.importFavouritesPrompt,
+      description: `${refs.length} ${t.favouritesInLink}`,
+      action: (
+        <ToastAction altText={t.importFavourites} onClick={() => importFavourites(refs)}>
+          {t.importFavourites}
+        </ToastAction>
+      ),
+    });
+  }, [loading, allQuestions, importFavourites, t, toast]);
+
   useEffect(() => {
     // Logo stretch already initialized to true, just fetch questions
     fetchQuestions();
   }, []);
 
+  // Offer to reload when a new app version has been installed in the background
+  useEffect(() => {
+    registerServiceWorker(applyUpdate => setApplyUpdate(() => applyUpdate));
+  }, []);
+
+  // Send question submissions that were made while offline
+  useEffect(() => watchSubmissionQueue(count => {
+    toast({ title: t.submissionsDelivered, description: `${count} ${t.submissionsDeliveredCount}` });
+  }), [t, toast]);
+
+  useEffect(() => {
+    if (!applyUpdate) return;
+    const { dismiss } = toast({
+      title: t.updateAvailable,
+      description: t.updateAvailableDescription,
+      duration: Infinity,
+      action: (
+        <ToastAction altText={t.updateNow} onClick={applyUpdate}>
+          {t.updateNow}
+        </ToastAction>
+      ),
+    });
+    return dismiss;
+  }, [applyUpdate, t, toast]);
+
+  const finishLoading = (minimumDuration: number) => {
+    const elapsed = Date.now() - loadStartTime;
+    const remainingTime = Math.max(0, minimumDuration - elapsed);
+    
+    setTimeout(() => {
+      setLoading(false);
+      setLogoStretch(false);
+    }, remainingTime);
+  };
+
+  const applyDeck = (parsedQuestions: Question[]) => {
+    // Shuffled per selection and seed in the filter effect below
+    setAllQuestions(parsedQuestions);
+    
+    // Extract unique categories
+    const categories = Array.from(new Set(parsedQuestions.map(q => q.category)));
+    setAvailableCategories(categories);
+
+    // A link from the browse page brings its category filter; otherwise start with all
+    const linkedCategories = readCategoriesFromUrl().filter(c => categories.includes(c));
+    setSelectedCategories(linkedCategories.length > 0 ? linkedCategories : categories);
+    removeCategoriesFromUrl();
+  };
+
+  // Apply a refreshed deck without moving the player off their current card
+  const applyRefreshedDeck = (freshQuestions: Question[]) => {
+    const { questions: playing, currentIndex: index, availableCategories: knownCategories } = deckStateRef.current;
+    preserveQuestionIdRef.current = playing[index]?.id ?? null;
+    setAllQuestions(freshQuestions);
+
+    const categories = Array.from(new Set(freshQuestions.map(q => q.category)));
+    setAvailableCategories(categories);
+    // Keep the player's selection, but include categories that are new to the deck
+    setSelectedCategories(prev => [
+      ...prev.filter(c => categories.includes(c)),
+      ...categories.filter(c => !knownCategories.includes(c)),
+    ]);
+  };
+
   const fetchQuestions = async () => {
+    // Render the cached deck right away, then revalidate in the background
+    const cached = await readCachedDeck();
+    if (cached) {
+      setQuestionSource(cached.source);
+      setDeckVersion(cached.version);
+      setDeckThemes(cached.themes);
+      setDeckReport(cached.report);
+      applyDeck(cached.questions);
+      finishLoading(0);
+    }
+
     try {
-      let csvText = '';
-      
-      // Try Google Sheets first
-      try {
-        const sheetId = '1-5NpzNwUiAsl_BPruHygyUbpO3LHkWr8E08fqkypOcU';
-        const csvUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv`;
-        
-        const response = await fetch(csvUrl);
-        if (!response.ok) {
-          throw new Error('Failed to fetch data from Google Sheets');
-        }
-        csvText = await response.text();
-      } catch (googleError) {
-        console.error('Error fetching from Google Sheets, trying local CSV:', googleError);
-        // Fallback to local CSV file
-        const localResponse = await fetch('/quiz_questions.csv');
-        if (!localResponse.ok) {
-          throw new Error('Failed to fetch local CSV file');
-        }
-        csvText = await localResponse.text();
+      // Walk the source chain configured via VITE_QUESTION_SOURCES
+      const { questions: parsedQuestions, source, report, version, themes } = await loadFromSources();
+      // The bundled snapshot only means every live source failed; a cached
+      // deck came from one of them and is at least as recent, so keep it
+      if (cached && source === 'snapshot') {
+        console.info('No live question source reachable, keeping the cached deck');
+        return;
       }
+      const deckVersion = version ?? computeDeckVersion(parsedQuestions);
+      setQuestionSource(source);
+      setDeckVersion(deckVersion);
+      setDeckThemes(themes);
+      setDeckReport(report);
       
-      // Parse CSV data
-      const lines = csvText.split('\n');
-      const parsedQuestions: Question[] = [];
-      
-      // Skip header row (i = 1)
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue; // Skip empty lines
-        
-        // Simple CSV parsing - handles quotes and commas
-        const columns = parseCSVLine(line);
-        
-        if (columns.length >= 2 && columns[0] && columns[1]) {
-          parsedQuestions.push({
-            question: columns[0].trim(),
-            questionEn: columns.length >= 3 && columns[2] ? columns[2].trim() : columns[0].trim(),
-            category: columns[1].trim()
-          });
-        }
-      }
-      
-      if (parsedQuestions.length > 0) {
-        // Smart shuffle: avoid consecutive same categories
-        const shuffledQuestions = smartShuffleByCategory([...parsedQuestions]);
-        setAllQuestions(shuffledQuestions);
-        setQuestions(shuffledQuestions);
-        
-        // Extract unique categories
-        const categories = Array.from(new Set(parsedQuestions.map(q => q.category)));
-        setAvailableCategories(categories);
-        setSelectedCategories(categories); // Start with all categories selected
-        
+      if (!cached) {
+        applyDeck(parsedQuestions);
+      } else if (cached.version !== deckVersion) {
+        console.info('Question deck changed, applying update', { from: cached.version, to: deckVersion });
+        applyRefreshedDeck(parsedQuestions);
       }
+
+      await writeCachedDeck({
+        version: deckVersion,
+        source,
+        questions: parsedQuestions,
+        report,
+        themes,
+        savedAt: Date.now(),
+      });
     } catch (error) {
       console.error('Error fetching questions:', error);
     } finally {
-      // Ensure animation plays for minimum 2.5s from start
-      const elapsed = Date.now() - loadStartTime;
-      const remainingTime = Math.max(0, 2500 - elapsed);
-      
-      setTimeout(() => {
-        setLoading(false);
-        setLogoStretch(false);
-      }, remainingTime);
+      if (!cached) {
+        // Ensure animation plays for minimum 2.5s from start
+        finishLoading(2500);
+      }
     }
   };
 
-  // Helper function to parse CSV line with proper quote handling
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        // Handle escaped quotes
-        if (inQuotes && line[i + 1] === '"') {
-          current += '"';
-          i++; // Skip next quote
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        result.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
+  // Fresh seed and order; the category selection stays as it is
+  const startNewRound = () => {
+    setSeed(generateSeed());
+    setEndless(false);
+    loopRoundRef.current = 0;
+
+    // A shared question link only applies to the round it was opened with
+    const url = new URL(window.location.href);
+    url.searchParams.delete('q');
+    window.history.replaceState(window.history.state, '', url);
+  };
+
+  const visibleQuestions = useMemo(
+    () => allQuestions.filter(q => !hidden.ids.has(q.id)),
+    [allQuestions, hidden.ids]
+  );
+
+  const toggleFavourite = (questionId: string) => {
+    const favourited = !favourites.ids.has(questionId);
+    if (favourited) {
+      favourites.add(questionId);
+    } else {
+      favourites.remove(questionId);
     }
-    
-    result.push(current);
-    return result;
+    session.mark(questionId, { favourited });
   };
 
-  // Smart shuffle to avoid consecutive same categories
-  const smartShuffleByCategory = (questions: Question[]): Question[] => {
-    if (questions.length <= 1) return questions;
-    
-    // First, do a basic shuffle
-    const shuffled = [...questions].sort(() => Math.random() - 0.5);
-    
-    // Then, try to swap questions to avoid consecutive same categories
-    for (let i = 0; i < shuffled.length - 1; i++) {
-      if (shuffled[i].category === shuffled[i + 1].category) {
-        // Find a different category question to swap with
-        let swapIndex = -1;
-        for (let j = i + 2; j < shuffled.length; j++) {
-          if (shuffled[j].category !== shuffled[i].category && 
-              shuffled[j].category !== shuffled[i - 1]?.category) {
-            swapIndex = j;
-            break;
-          }
-        }
-        
-        // If found, swap
-        if (swapIndex !== -1) {
-          const temp = shuffled[i + 1];
-          shuffled[i + 1] = shuffled[swapIndex];
-          shuffled[swapIndex] = temp;
-        }
-      }
+  // Whether a question belongs in the deck for the current selection or mode
+  const belongsInDeck = (question: Question) => favouritesOnly
+    ? favourites.ids.has(question.id)
+    : selectedCategories.includes(question.category);
+
+  // Puts questions back into the playing deck, somewhere after the current card
+  const insertIntoDeck = (restored: Question[]) => {
+    const additions = restored.filter(belongsInDeck);
+    if (additions.length === 0) return;
+    setQuestions(prev => mergeDeckOrder(prev, [...prev, ...additions], currentIndex));
+  };
+
+  const hideQuestion = (questionId: string) => {
+    // Endless mode repeats rounds, so the ID can be in the deck more than once;
+    // the hidden card is the copy being shown, every copy leaves the deck
+    const positions = questions.flatMap((q, i) => q.id === questionId ? [i] : []);
+    if (positions.length === 0) return;
+    const index = positions.find(i => i >= currentIndex) ?? positions[positions.length - 1];
+    const question = questions[index];
+    const removedBefore = positions.filter(i => i < currentIndex).length;
+
+    hidden.add(questionId);
+    session.mark(questionId, { hidden: true });
+    setQuestions(prev => prev.filter(q => q.id !== questionId));
+    // Stay on the same position, so the next card moves up into it
+    setCurrentIndex(Math.max(0, Math.min(currentIndex - removedBefore, questions.length - positions.length - 1)));
+
+    const undo = () => {
+      hidden.remove(questionId);
+      session.mark(questionId, { hidden: false });
+      setQuestions(prev => {
+        if (prev.some(q => q.id === questionId)) return prev;
+        const next = [...prev];
+        // Ascending, so every copy lands back on its old position
+        positions.forEach(position => next.splice(Math.min(position, next.length), 0, question));
+        return next;
+      });
+      setCurrentIndex(index);
+    };
+
+    toast({
+      title: t.questionHidden,
+      description: t.questionHiddenDescription,
+      action: (
+        <ToastAction altText={t.undo} onClick={undo}>
+          {t.undo}
+        </ToastAction>
+      ),
+    });
+  };
+
+  const reportQuestionCard = async (questionId: string, reason: ReportReason, questionText: string) => {
+    if (reported.ids.has(questionId)) {
+      toast({ title: t.reportAlreadySent });
+      return;
     }
-    
-    return shuffled;
+    try {
+      await reportQuestion({ questionId, questionText, locale: language, reason });
+      reported.add(questionId);
+      toast({ title: t.reportSent, description: t.reportSentDescription });
+    } catch (error) {
+      console.warn(error);
+      toast({ title: t.reportFailed, variant: 'destructive' });
+    }
+  };
+
+  const restoreHidden = (questionIds: string[]) => {
+    const restoring = new Set(questionIds);
+    hidden.replace([...hidden.ids].filter(id => !restoring.has(id)));
+    insertIntoDeck(allQuestions.filter(q => restoring.has(q.id)));
+  };
+
+  // Jumps to a search result; questions outside the current deck are put in right after the current card
+  const jumpToQuestion = (question: Question) => {
+    setSearchOpen(false);
+    const afterCurrent = questions.findIndex((q, i) => i >= currentIndex && q.id === question.id);
+    let index = afterCurrent >= 0 ? afterCurrent : questions.findIndex(q => q.id === question.id);
+    if (index < 0) {
+      index = Math.min(currentIndex + 1, questions.length);
+      setQuestions(prev => [...prev.slice(0, index), question, ...prev.slice(index)]);
+    }
+    setJumpRequest({ question, index, key: Date.now() });
+  };
+
+  // Progress scrubber: slide to any card in the current deck
+  const deckCategories = useMemo(() => questions.map(q => q.category), [questions]);
+  const scrubTo = (index: number) => {
+    if (!questions[index]) return;
+    setJumpRequest({ question: questions[index], index, key: Date.now() });
   };
 
+  const handleJump = (index: number) => {
+    setJumpRequest(null);
+    setCurrentIndex(index);
+    setDragProgress(0);
+    setTargetCategory('');
+  };
+
+  // Cmd/Ctrl+K opens the search
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setSearchOpen(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const nextQuestion = () => {
-    if (currentIndex < questions.length - 1) {
+    if (currentIndex < deck.length - 1) {
       setCurrentIndex(prev => prev + 1);
       setDragProgress(0);
       setTargetCategory('');
@@ -226,16 +451,64 @@ export function QuizApp() {
 
   // Filter questions based on selected categories
   useEffect(() => {
-    if (selectedCategories.length === 0) {
+    if (selectedCategories.length === 0 && !favouritesOnly) {
       setQuestions([]);
       return;
     }
-    const filteredQuestions = allQuestions.filter(q => selectedCategories.includes(q.category));
-    setQuestions(filteredQuestions);
+    // The favourites deck ignores the category selection
+    const selection = allQuestions.filter(q => favouritesOnly
+      ? favouriteIdsRef.current.has(q.id)
+      : selectedCategories.includes(q.category));
+    const filteredQuestions = selection.filter(q => !hiddenIdsRef.current.has(q.id));
+
+    // Categories added from the end card: continue with just the new questions
+    const { questions: playing, currentIndex: playingIndex } = deckStateRef.current;
+    if (extendDeckRef.current && playingIndex >= playing.length && preserveQuestionIdRef.current === null) {
+      extendDeckRef.current = false;
+      const playingIds = new Set(playing.map(q => q.id));
+      const added = filteredQuestions.filter(q => !playingIds.has(q.id));
+      if (added.length > 0) {
+        setQuestions([...playing, ...shuffleDeck(added, seed, sequenceOptions).questions]);
+        return;
+      }
+    }
+
+    // Background deck refresh: keep the order and stay on the same card if it still exists
+    const preservedId = preserveQuestionIdRef.current;
+    if (preservedId !== null) {
+      preserveQuestionIdRef.current = null;
+      const { questions: playing } = deckStateRef.current;
+      // Seeded, so players on the same link who refresh together stay in sync
+      const random = createSeededRandom(`${seed}:${computeDeckVersion(filteredQuestions)}`);
+      const merged = mergeDeckOrder(playing, filteredQuestions, playing.findIndex(q => q.id === preservedId), random);
+      const preservedIndex = merged.findIndex(q => q.id === preservedId);
+      setQuestions(merged);
+      setCurrentIndex(prev => preservedIndex >= 0
+        ? preservedIndex
+        : Math.max(0, Math.min(prev, merged.length - 1)));
+      return;
+    }
+
+    // Sequenced over the whole selection before the per-device filters (hidden,
+    // unseen first), so the same seed and selection give the same order
+    // everywhere; skipping hidden cards can bring a category closer together
+    const { questions: ordered, gapViolations } = shuffleDeck(selection, seed, sequenceOptions);
+    const visible = ordered.filter(q => !hiddenIdsRef.current.has(q.id));
+    const sequenced = unseenFirst
+      ? [
+        ...visible.filter(q => !seenIdsRef.current.has(q.id)),
+        ...visible.filter(q => seenIdsRef.current.has(q.id)),
+      ]
+      : visible;
+    if (gapViolations > 0) {
+      console.info(`Deck: category gap relaxed at ${gapViolations} position(s) for the current selection`);
+    }
+    setQuestions(sequenced);
+
     if (initialIndexApplied) {
       setCurrentIndex(0);
     }
-  }, [selectedCategories, allQuestions]);
+  }, [selectedCategories, allQuestions, seed, unseenFirst, favouritesOnly]);
 
   // Apply deep-link from URL once questions are ready
   useEffect(() => {
@@ -254,17 +527,8 @@ export function QuizApp() {
       return;
     }
 
-    let targetIndex = -1;
-    const numeric = parseInt(qParam, 10);
-    if (!Number.isNaN(numeric) && numeric >= 0 && numeric < questions.length) {
-      targetIndex = numeric;
-      console.info('DeepLink: using numeric index', targetIndex);
-    } else {
-      const textParam = qParam; // already decoded by URLSearchParams
-      const normalized = textParam.trim();
-      targetIndex = questions.findIndex(q => q.question.trim() === normalized);
-      console.info('DeepLink: matching by text', { qParam: normalized, targetIndex });
-    }
+    const { index: targetIndex, matchedBy } = findQuestionIndexForLink(questions, qParam);
+    console.info('DeepLink: resolving q param', { qParam, targetIndex, matchedBy });
 
     if (targetIndex >= 0 && targetIndex < questions.length) {
       setCurrentIndex(targetIndex);
@@ -290,6 +554,8 @@ export function QuizApp() {
 
   const handleModalClose = () => {
     setCategorySelectorOpen(false);
+    // Closed without adding anything: the next deck rebuild starts over as usual
+    extendDeckRef.current = false;
   };
 
   // Interpolate between colors during drag - using shortest hue path
@@ -329,12 +595,12 @@ export function QuizApp() {
 
   const getCurrentBackgroundColor = () => {
     if (loading) return 'hsl(0, 100%, 65%)';
-    if (questions.length === 0) return 'hsl(0, 100%, 65%)';
+    if (deck.length === 0) return 'hsl(0, 100%, 65%)';
     
-    const currentColor = getCategoryBodyColor(questions[currentIndex].category);
+    const currentColor = getCategoryStyle(deck[currentIndex].category).bodyColor;
     
     if (dragProgress > 0 && targetCategory) {
-      const targetColor = getCategoryBodyColor(targetCategory);
+      const targetColor = getCategoryStyle(targetCategory).bodyColor;
       return interpolateColor(currentColor, targetColor, dragProgress);
     }
     
@@ -463,13 +729,47 @@ export function QuizApp() {
             }}
           />
           {!loading && (
-            <button 
-              onClick={() => setCategorySelectorOpen(true)}
-              className="text-black font-normal text-xs"
-              style={{fontSize: '14px'}}
-            >
-              {t.chooseCategories}
-            </button>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => setFavouritesOnly(prev => !prev)}
+                className="text-black"
+                aria-pressed={favouritesOnly}
+                aria-label={t.favouritesOnly}
+                title={t.favouritesOnly}
+              >
+                <Heart className="w-4 h-4" strokeWidth={2} fill={favouritesOnly ? 'currentColor' : 'none'} />
+              </button>
+              <button
+                onClick={() => setSearchOpen(true)}
+                className="text-black md:hidden"
+                aria-label={t.searchQuestions}
+                title={t.searchQuestions}
+              >
+                <Search className="w-4 h-4" strokeWidth={2} />
+              </button>
+              <button
+                onClick={() => setRecapOpen(true)}
+                className="text-black"
+                aria-label={t.viewRecap}
+                title={t.viewRecap}
+              >
+                <History className="w-4 h-4" strokeWidth={2} />
+              </button>
+              <button
+                onClick={startNewRound}
+                className="text-black font-normal text-xs"
+                style={{fontSize: '14px'}}
+              >
+                {t.newRound}
+              </button>
+              <button 
+                onClick={() => setCategorySelectorOpen(true)}
+                className="text-black font-normal text-xs"
+                style={{fontSize: '14px'}}
+              >
+                {t.chooseCategories}
+              </button>
+            </div>
           )}
         </div>
       </div>
@@ -481,26 +781,49 @@ export function QuizApp() {
             <div className="h-full flex items-center justify-center">
               {/* Loading state - no text shown */}
             </div>
-          ) : questions.length > 0 ? (
+          ) : deck.length > 0 ? (
             <QuizCard
-              currentQuestion={questions[currentIndex]}
-              nextQuestion={currentIndex < questions.length - 1 ? questions[currentIndex + 1] : null}
-              prevQuestion={currentIndex > 0 ? questions[currentIndex - 1] : null}
-              nextQuestion2={currentIndex < questions.length - 2 ? questions[currentIndex + 2] : null}
-              prevQuestion2={currentIndex > 1 ? questions[currentIndex - 2] : null}
+              currentQuestion={deck[currentIndex]}
+              nextQuestion={currentIndex < deck.length - 1 ? deck[currentIndex + 1] : null}
+              prevQuestion={currentIndex > 0 ? deck[currentIndex - 1] : null}
+              nextQuestion2={currentIndex < deck.length - 2 ? deck[currentIndex + 2] : null}
+              prevQuestion2={currentIndex > 1 ? deck[currentIndex - 2] : null}
               adjacentQuestions={[
-                questions[currentIndex - 3],
-                questions[currentIndex + 3],
+                deck[currentIndex - 3],
+                deck[currentIndex + 3],
               ].filter((q): q is Question => q !== undefined)}
               onSwipeLeft={nextQuestion}
               onSwipeRight={prevQuestion}
               onDragStateChange={handleDragStateChange}
               questionIndex={currentIndex}
               totalQuestions={questions.length}
+              favouriteIds={favourites.ids}
+              onToggleFavourite={toggleFavourite}
+              onHide={hideQuestion}
+              jumpTo={jumpRequest}
+              onJump={handleJump}
+              deckCategories={deckCategories}
+              onScrub={scrubTo}
+              onReport={reportQuestionCard}
+              shareCategories={favouritesOnly || selectedCategories.length === availableCategories.length ? [] : selectedCategories}
+              endCard={
+                <EndCard
+                  questionCount={questions.length}
+                  onReshuffle={startNewRound}
+                  onAddCategories={() => {
+                    extendDeckRef.current = true;
+                    setCategorySelectorOpen(true);
+                  }}
+                  onEndlessLoop={() => setEndless(true)}
+                  onShowRecap={() => setRecapOpen(true)}
+                />
+              }
             />
           ) : (
             <div className="h-full flex items-center justify-center">
-              <div className="text-black text-sm">{t.noQuestionsAvailable}</div>
+              <div className="text-black text-sm px-8 text-center">
+                {favouritesOnly ? t.noFavourites : t.noQuestionsAvailable}
+              </div>
             </div>
           )}
         </div>
@@ -512,7 +835,45 @@ export function QuizApp() {
         categories={availableCategories}
         selectedCategories={selectedCategories}
         onCategoriesChange={handleCategoriesChange}
+        questionSource={questionSource}
+        snapshotDate={getSnapshotDate(deckVersion)}
+        questions={visibleQuestions}
+        seenIds={seen.ids}
+        unseenFirst={unseenFirst}
+        onUnseenFirstChange={setUnseenFirst}
+        onResetSeen={seen.clear}
+      >
+        <FavouritesPanel
+          questions={allQuestions}
+          favouriteIds={favourites.ids}
+          favouritesOnly={favouritesOnly}
+          onFavouritesOnlyChange={setFavouritesOnly}
+          onImport={importFavourites}
+        />
+        <HiddenQuestionsPanel
+          questions={allQuestions}
+          hiddenIds={hidden.ids}
+          onRestore={restoreHidden}
+        />
+      </CategorySelector>
+
+      <QuestionSearch
+        open={searchOpen}
+        onOpenChange={setSearchOpen}
+        questions={visibleQuestions}
+        onSelect={jumpToQuestion}
       />
+
+      <SessionRecap
+        open={recapOpen}
+        onOpenChange={setRecapOpen}
+        entries={recapOpen ? session.snapshot() : session.entries}
+        questions={allQuestions}
+      />
+
+      {import.meta.env.DEV && deckReport && (
+        <DeckDiagnostics report={deckReport} source={questionSource} questionCount={allQuestions.length} />
+      )}
     </div>
   );
 }
@@ -1,15 +1,20 @@
-import { useState, useRef, useEffect, useCallback, useLayoutEffect } from 'react';
+import { useState, useRef, useEffect, useCallback, useLayoutEffect, type ReactNode } from 'react';
 import { applyGermanHyphenation } from '@/lib/hyphenation';
 import { ShareDialog } from './ShareDialog';
+import { FavouriteButton } from './FavouriteButton';
+import { HideQuestionButton } from './HideQuestionButton';
+import { DeckScrubber } from './DeckScrubber';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { translateToEnglish, getCachedTranslation } from '@/lib/translationService';
 import { translateCategory } from '@/lib/questionTranslations';
+import { Flag, Heart } from 'lucide-react';
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuLabel, ContextMenuSeparator, ContextMenuTrigger } from '@/components/ui/context-menu';
 import { useIsMobile } from '@/hooks/use-mobile';
-interface Question {
-  question: string;
-  questionEn: string;
-  category: string;
-}
+import type { Question } from '@/lib/questions';
+import { getCategoryStyle } from '@/lib/categories';
+import { buildCardBackground, getCardTheme } from '@/lib/cardTheme';
+import { isEndCard } from '@/lib/endCard';
+import { REPORT_REASONS, type ReportReason } from '@/lib/questionReports';
 
 interface QuizCardProps {
   currentQuestion: Question;
@@ -23,9 +28,27 @@ interface QuizCardProps {
   onDragStateChange?: (isDragging: boolean, progress: number, targetCategory: string, direction: number) => void;
   questionIndex: number;
   totalQuestions: number;
+  favouriteIds?: Set<string>;
+  /** Button on each card, or a double tap on the active one */
+  onToggleFavourite?: (questionId: string) => void;
+  /** "Never show again" */
+  onHide?: (questionId: string) => void;
+  /** Content of the end-of-deck card, see endCard.ts */
+  endCard?: ReactNode;
+  /** Slides to any card in the deck; a new `key` starts a new jump */
+  jumpTo?: { question: Question; index: number; key: number } | null;
+  onJump?: (index: number) => void;
+  /** Category of every question in play order, for the progress scrubber */
+  deckCategories?: string[];
+  /** Scrubber released on another card; answer with `jumpTo` */
+  onScrub?: (index: number) => void;
+  /** Context menu (right click or long press) on the active card, with the text as shown */
+  onReport?: (questionId: string, reason: ReportReason, questionText: string) => void;
+  /** Category selection to put into share links; empty for the whole deck */
+  shareCategories?: string[];
 }
 
-export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQuestion2, prevQuestion2, adjacentQuestions = [], onSwipeLeft, onSwipeRight, onDragStateChange, questionIndex, totalQuestions }: QuizCardProps) {
+export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQuestion2, prevQuestion2, adjacentQuestions = [], onSwipeLeft, onSwipeRight, onDragStateChange, questionIndex, totalQuestions, favouriteIds, onToggleFavourite, onHide, endCard, jumpTo, onJump, deckCategories, onScrub, onReport, shareCategories }: QuizCardProps) {
   // Core drag state following described architecture
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState(0);
@@ -47,8 +70,10 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
   const [containerWidth, setContainerWidth] = useState(0);
   const [translatedTexts, setTranslatedTexts] = useState<Record<string, string>>({});
   const [showSwipeHint, setShowSwipeHint] = useState(false);
+  // Heart shown after a double tap; the key restarts the animation
+  const [heartBurst, setHeartBurst] = useState<{ key: number; filled: boolean } | null>(null);
   
-  const { language } = useLanguage();
+  const { language, t } = useLanguage();
   const isMobile = useIsMobile();
   const hintTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -56,6 +81,10 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
   const activeCardRef = useRef<HTMLDivElement>(null);
   const dragThreshold = 100; // Threshold for triggering transition
   const touchTriggeredRef = useRef(false); // Prevent onClick after onTouchStart
+  const lastTapRef = useRef(0);
+  const lastTouchEndRef = useRef(0); // Ignore the mouse events browsers emulate after a tap
+  const doubleTapDelay = 300;
+  const tapTolerance = 10; // Max movement in px for a press to count as a tap
   
   // Get the actual card width for accurate slide positioning
   const getCardWidth = () => {
@@ -124,7 +153,7 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
     
     // Include current, next, prev, and adjacent questions for pre-fetching
     const allQuestionsToProcess = [currentQuestion, nextQuestion, prevQuestion, ...adjacentQuestions]
-      .filter((q): q is Question => q !== null);
+      .filter((q): q is Question => q !== null && !isEndCard(q));
     
     // Immediately sync all cached translations to state
     const cachedTranslations: Record<string, string> = {};
@@ -196,22 +225,23 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
     }
   }, [questionIndex]);
   
-  // Unified navigation trigger - used by click zones and keyboard
+  // Unified navigation trigger - used by click zones, keyboard and jumps
   // This replicates the exact swipe animation behavior
-  const triggerNavigation = useCallback((direction: 'left' | 'right') => {
+  const triggerNavigation = useCallback((direction: 'left' | 'right', jump?: { question: Question; index: number }) => {
     // Prevent double-triggering during transition
     if (isTransitioning || frozenQuestions) return;
     
-    const targetQuestion = direction === 'left' ? nextQuestion : prevQuestion;
+    const targetQuestion = jump?.question ?? (direction === 'left' ? nextQuestion : prevQuestion);
     if (!targetQuestion) return;
     
-    // Freeze current questions so they don't change during animation
+    // Freeze current questions so they don't change during animation.
+    // A jump slides the target in as the neighbouring card.
     setFrozenQuestions({
       current: currentQuestion,
-      next: nextQuestion,
-      prev: prevQuestion,
-      next2: nextQuestion2,
-      prev2: prevQuestion2,
+      next: jump && direction === 'left' ? jump.question : nextQuestion,
+      prev: jump && direction === 'right' ? jump.question : prevQuestion,
+      next2: jump ? null : nextQuestion2,
+      prev2: jump ? null : prevQuestion2,
       questionIndex: questionIndex,
     });
     
@@ -239,18 +269,33 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
     
     // After animation completes, trigger the actual navigation
     setTimeout(() => {
-      if (direction === 'left') {
+      if (jump) {
+        onJump?.(jump.index);
+      } else if (direction === 'left') {
         onSwipeLeft();
       } else {
         onSwipeRight();
       }
     }, transitionDuration);
-  }, [isTransitioning, frozenQuestions, currentQuestion, nextQuestion, prevQuestion, nextQuestion2, prevQuestion2, questionIndex, isMobile, onDragStateChange, onSwipeLeft, onSwipeRight]);
+  }, [isTransitioning, frozenQuestions, currentQuestion, nextQuestion, prevQuestion, nextQuestion2, prevQuestion2, questionIndex, isMobile, onDragStateChange, onSwipeLeft, onSwipeRight, onJump]);
+
+  // Jump requested by the parent (search): slide towards the target
+  const handledJumpRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!jumpTo || handledJumpRef.current === jumpTo.key) return;
+    // Wait for a running slide to finish; this runs again once it has
+    if (isTransitioning || frozenQuestions) return;
+    handledJumpRef.current = jumpTo.key;
+    if (jumpTo.index === questionIndex) return;
+    triggerNavigation(jumpTo.index > questionIndex ? 'left' : 'right', jumpTo);
+  }, [jumpTo, questionIndex, isTransitioning, frozenQuestions, triggerNavigation]);
   
   // Keyboard arrow navigation - must be after triggerNavigation definition
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (isTransitioning) return;
+      // Arrow keys in a text field (e.g. search) move the cursor, not the deck
+      if ((e.target as HTMLElement).closest?.('input, textarea, [contenteditable="true"]')) return;
       
       if (e.key === 'ArrowLeft') {
         triggerNavigation('right');
@@ -306,362 +351,6 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
     });
   };
 
-  // Generate randomized dark shadow positions for each slide based on questionIndex
-  const getDarkShadows = (seed: number) => {
-    // Use seed to create pseudo-random but consistent values per slide
-    const rand1 = ((seed * 13) % 30) + 70; // 70-100% for top right x
-    const rand2 = ((seed * 17) % 25) + 5;  // 5-30% for top right y
-    const rand3 = ((seed * 23) % 35) + 40; // 40-75% ellipse width
-    const rand4 = ((seed * 29) % 30) + 30; // 30-60% ellipse height
-    
-    const rand5 = ((seed * 31) % 25) + 5;  // 5-30% for top left x
-    const rand6 = ((seed * 37) % 20) + 5;  // 5-25% for top left y
-    const rand7 = ((seed * 41) % 30) + 35; // 35-65% ellipse width
-    const rand8 = ((seed * 43) % 25) + 30; // 30-55% ellipse height
-    
-    return {
-      topRight: `radial-gradient(ellipse ${rand3}% ${rand4}% at ${rand1}% ${rand2}%, rgba(20, 25, 35, 0.25) 0%, transparent 70%)`,
-      topLeft: `radial-gradient(ellipse ${rand7}% ${rand8}% at ${rand5}% ${rand6}%, rgba(25, 30, 40, 0.22) 0%, transparent 70%)`
-    };
-  };
-
-  // Generate randomized glow positions - aura-like spread with varied shapes
-  const getGlowPositions = (seed: number) => {
-    // More shape variety per slide
-    const shapeVariant = seed % 4;
-    
-    // Main glow - larger aura spread
-    const mainX = ((seed * 47) % 18) + 58; // 58-76% x
-    const mainY = ((seed * 53) % 18) + 52; // 52-70% y
-    // Vary aspect ratios more dramatically for aura effect
-    const mainW = shapeVariant === 0 ? ((seed * 59) % 20) + 50 : 
-                  shapeVariant === 1 ? ((seed * 59) % 15) + 35 :
-                  shapeVariant === 2 ? ((seed * 59) % 25) + 45 :
-                  ((seed * 59) % 18) + 40;
-    const mainH = shapeVariant === 0 ? ((seed * 61) % 15) + 25 : 
-                  shapeVariant === 1 ? ((seed * 61) % 20) + 45 :
-                  shapeVariant === 2 ? ((seed * 61) % 12) + 20 :
-                  ((seed * 61) % 22) + 38;
-    
-    // Secondary glow - offset aura layer
-    const secX = ((seed * 67) % 20) + 52; // 52-72% x
-    const secY = ((seed * 71) % 20) + 55; // 55-75% y
-    const secVariant = (seed + 1) % 4;
-    const secW = secVariant === 0 ? ((seed * 73) % 18) + 42 : 
-                 secVariant === 1 ? ((seed * 73) % 12) + 28 :
-                 secVariant === 2 ? ((seed * 73) % 22) + 38 :
-                 ((seed * 73) % 15) + 32;
-    const secH = secVariant === 0 ? ((seed * 79) % 12) + 20 : 
-                 secVariant === 1 ? ((seed * 79) % 18) + 38 :
-                 secVariant === 2 ? ((seed * 79) % 10) + 18 :
-                 ((seed * 79) % 20) + 35;
-    
-    // Tertiary glow - outer aura layer
-    const terX = ((seed * 83) % 22) + 55; // 55-77% x
-    const terY = ((seed * 89) % 22) + 48; // 48-70% y
-    const terVariant = (seed + 2) % 4;
-    const terW = terVariant === 0 ? ((seed * 97) % 20) + 45 : 
-                 terVariant === 1 ? ((seed * 97) % 14) + 30 :
-                 terVariant === 2 ? ((seed * 97) % 25) + 40 :
-                 ((seed * 97) % 16) + 35;
-    const terH = terVariant === 0 ? ((seed * 101) % 14) + 22 : 
-                 terVariant === 1 ? ((seed * 101) % 20) + 40 :
-                 terVariant === 2 ? ((seed * 101) % 12) + 18 :
-                 ((seed * 101) % 18) + 32;
-    
-    return { mainX, mainY, mainW, mainH, secX, secY, secW, secH, terX, terY, terW, terH };
-  };
-
-  // Build simple radial glow gradient (circle style for most categories)
-  const buildAuraGradient = (w: number, h: number, x: number, y: number, r: number, g: number, b: number, intensity: number) => {
-    return `radial-gradient(ellipse ${w}% ${h}% at ${x}% ${y}%, 
-      rgba(${r}, ${g}, ${b}, ${intensity}) 0%, 
-      rgba(${r}, ${g}, ${b}, ${intensity * 0.5}) 40%, 
-      transparent 70%)`;
-  };
-
-  // Build flame-like glow for fuck category - visible flames
-  const buildFlameGradient = (w: number, h: number, x: number, y: number, r: number, g: number, b: number, intensity: number) => {
-    const flame1 = `radial-gradient(ellipse ${w * 0.8}% ${h * 2.0}% at ${x}% 85%, 
-      rgba(${r}, ${g}, ${b}, ${intensity}) 0%, 
-      rgba(${r}, ${g * 0.5}, ${b * 0.3}, ${intensity * 0.6}) 35%, 
-      transparent 70%)`;
-    const flame2 = `radial-gradient(ellipse ${w * 0.6}% ${h * 1.6}% at ${x - 20}% 90%, 
-      rgba(255, 120, 20, ${intensity * 0.9}) 0%, 
-      rgba(255, 50, 10, ${intensity * 0.5}) 40%, 
-      transparent 75%)`;
-    const flame3 = `radial-gradient(ellipse ${w * 0.7}% ${h * 1.4}% at ${x + 25}% 88%, 
-      rgba(255, 80, 50, ${intensity}) 0%, 
-      rgba(200, 30, 30, ${intensity * 0.4}) 45%, 
-      transparent 80%)`;
-    const flameCore = `radial-gradient(ellipse ${w}% ${h * 0.8}% at ${x}% 95%, 
-      rgba(255, 220, 120, ${intensity * 0.8}) 0%, 
-      rgba(255, 150, 50, ${intensity * 0.5}) 50%, 
-      transparent 80%)`;
-    return `${flame1}, ${flame2}, ${flame3}, ${flameCore}`;
-  };
-
-  // Build vertical nebula fog gradient (only for party category)
-  const buildVerticalAuraGradient = (w: number, h: number, x: number, y: number, r: number, g: number, b: number, intensity: number) => {
-    const fogLayer1 = `radial-gradient(ellipse ${w * 0.4}% ${h * 1.8}% at ${x + 8}% ${y - 5}%, 
-      rgba(${r}, ${g}, ${b}, ${intensity * 0.6}) 0%, 
-      rgba(${r}, ${g}, ${b}, ${intensity * 0.3}) 40%, 
-      transparent 70%)`;
-    const fogLayer2 = `radial-gradient(ellipse ${w * 0.35}% ${h * 2.5}% at ${x - 5}% ${y + 12}%, 
-      rgba(${r}, ${g}, ${b}, ${intensity * 0.5}) 0%, 
-      rgba(${r}, ${g}, ${b}, ${intensity * 0.2}) 50%, 
-      transparent 80%)`;
-    const fogLayer3 = `radial-gradient(ellipse ${w * 0.5}% ${h * 1.4}% at ${x + 15}% ${y + 5}%, 
-      rgba(${r}, ${g}, ${b}, ${intensity * 0.4}) 0%, 
-      rgba(${r}, ${g}, ${b}, ${intensity * 0.15}) 60%, 
-      transparent 90%)`;
-    return `${fogLayer1}, ${fogLayer2}, ${fogLayer3}`;
-  };
-
-  // Get category-specific neon color - using sharp edge glows with multiple colors from bottom-right
-  const getCategoryColors = (category: string, qIndex: number = 0) => {
-    const shadows = getDarkShadows(qIndex);
-    const glow = getGlowPositions(qIndex);
-    
-    switch (category.toLowerCase()) {
-      case 'fuck':
-        return { 
-          stripBg: 'hsl(15, 100%, 50%)', 
-          bodyBg: 'hsl(15, 100%, 50%)', 
-          cardFill: 'rgba(150, 10, 10, 0.35)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildFlameGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 255, 60, 30, 0.85)},
-            ${buildFlameGradient(glow.secW * 0.8, glow.secH, glow.secX + 10, glow.secY, 255, 100, 50, 0.7)},
-            ${buildFlameGradient(glow.terW * 0.6, glow.terH, glow.terX - 5, glow.terY, 255, 40, 20, 0.75)}
-          `
-        };
-      case 'friends':
-      case 'wer aus der runde':
-        return { 
-          stripBg: 'hsl(278, 100%, 57%)', 
-          bodyBg: 'hsl(278, 100%, 57%)', 
-          cardFill: 'rgba(60, 180, 160, 0.15)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 100, 220, 200, 0.75)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 255, 80, 80, 0.55)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 100, 255, 150, 0.5)}
-          `
-        };
-      case 'self reflection':
-        return { 
-          stripBg: 'hsl(290, 100%, 50%)', 
-          bodyBg: 'hsl(290, 100%, 50%)', 
-          cardFill: 'hsla(340, 100%, 35%, 0.12)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 255, 180, 120, 0.7)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 200, 100, 255, 0.6)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 255, 200, 100, 0.5)}
-          `
-        };
-      case 'party':
-        return { 
-          stripBg: 'hsl(300, 100%, 50%)', 
-          bodyBg: 'hsl(300, 100%, 50%)', 
-          cardFill: 'rgba(180, 30, 30, 0.18)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildVerticalAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 255, 30, 60, 0.75)},
-            ${buildVerticalAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 255, 50, 200, 0.65)},
-            ${buildVerticalAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 200, 30, 255, 0.6)}
-          `
-        };
-      case 'family':
-        return { 
-          stripBg: 'hsl(328, 100%, 56%)', 
-          bodyBg: 'hsl(328, 100%, 56%)', 
-          cardFill: 'hsla(300, 100%, 60%, 0.10)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 255, 180, 200, 0.7)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 255, 100, 180, 0.55)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 200, 150, 255, 0.5)}
-          `
-        };
-      case 'connection':
-        return { 
-          stripBg: 'hsl(0, 100%, 50%)', 
-          bodyBg: 'hsl(0, 100%, 50%)', 
-          cardFill: 'rgba(90, 25, 45, 0.35)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 255, 80, 150, 0.72)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 255, 140, 50, 0.55)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 255, 120, 180, 0.5)}
-          `
-        };
-      case 'identity':
-        return { 
-          stripBg: 'hsl(328, 100%, 56%)', 
-          bodyBg: 'hsl(328, 100%, 56%)', 
-          cardFill: 'rgba(60, 10, 25, 0.22)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.secW, glow.mainH * 1.2, glow.mainX + 15, glow.mainY - 10, 255, 140, 30, 0.6)},
-            ${buildAuraGradient(glow.mainW * 0.8, glow.secH, glow.secX - 10, glow.secY + 5, 255, 120, 20, 0.55)},
-            ${buildAuraGradient(glow.terW * 1.3, glow.terH * 0.7, glow.terX, glow.terY, 255, 50, 30, 0.35)}
-          `
-        };
-      case 'career':
-        return { 
-          stripBg: 'hsl(290, 100%, 50%)', 
-          bodyBg: 'hsl(290, 100%, 50%)', 
-          cardFill: 'hsla(340, 100%, 35%, 0.12)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 100, 180, 255, 0.7)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 150, 100, 255, 0.58)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 100, 220, 200, 0.48)}
-          `
-        };
-      case 'travel':
-        return { 
-          stripBg: 'hsl(15, 100%, 50%)', 
-          bodyBg: 'hsl(15, 100%, 50%)', 
-          cardFill: 'hsla(175, 70%, 40%, 0.08)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 80, 220, 200, 0.75)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 100, 180, 255, 0.58)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 150, 255, 180, 0.48)}
-          `
-        };
-      case 'health':
-        return { 
-          stripBg: 'hsl(300, 100%, 50%)', 
-          bodyBg: 'hsl(300, 100%, 50%)', 
-          cardFill: 'hsla(0, 100%, 40%, 0.10)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 120, 255, 150, 0.72)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 100, 200, 255, 0.58)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 200, 255, 150, 0.48)}
-          `
-        };
-      case 'money':
-        return { 
-          stripBg: 'hsl(290, 100%, 50%)', 
-          bodyBg: 'hsl(290, 100%, 50%)', 
-          cardFill: 'hsla(340, 100%, 35%, 0.12)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 255, 220, 100, 0.75)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 255, 180, 50, 0.6)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 200, 255, 100, 0.48)}
-          `
-        };
-      case 'love':
-        return { 
-          stripBg: 'hsl(15, 100%, 50%)', 
-          bodyBg: 'hsl(15, 100%, 50%)', 
-          cardFill: 'hsla(300, 100%, 60%, 0.10)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 255, 120, 150, 0.72)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 255, 80, 120, 0.58)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 255, 180, 200, 0.5)}
-          `
-        };
-      case 'hobby':
-        return { 
-          stripBg: 'hsl(328, 100%, 56%)', 
-          bodyBg: 'hsl(328, 100%, 56%)', 
-          cardFill: 'hsla(175, 70%, 40%, 0.08)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 100, 200, 255, 0.7)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 150, 100, 255, 0.58)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 100, 255, 220, 0.48)}
-          `
-        };
-      case 'dreams':
-        return { 
-          stripBg: 'hsl(300, 100%, 50%)', 
-          bodyBg: 'hsl(300, 100%, 50%)', 
-          cardFill: 'hsla(0, 100%, 40%, 0.10)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 200, 150, 255, 0.75)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 255, 100, 200, 0.58)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 150, 200, 255, 0.5)}
-          `
-        };
-      case 'fear':
-        return { 
-          stripBg: 'hsl(0, 100%, 50%)', 
-          bodyBg: 'hsl(0, 100%, 50%)', 
-          cardFill: 'hsla(340, 100%, 35%, 0.12)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 100, 120, 180, 0.7)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 80, 100, 200, 0.55)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 150, 100, 180, 0.48)}
-          `
-        };
-      case 'wisdom':
-        return { 
-          stripBg: 'hsl(290, 100%, 50%)', 
-          bodyBg: 'hsl(290, 100%, 50%)', 
-          cardFill: 'hsla(300, 100%, 60%, 0.10)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 255, 220, 180, 0.72)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 255, 180, 120, 0.55)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 220, 200, 150, 0.48)}
-          `
-        };
-      case 'future':
-        return { 
-          stripBg: 'hsl(15, 100%, 50%)', 
-          bodyBg: 'hsl(15, 100%, 50%)', 
-          cardFill: 'hsla(175, 70%, 40%, 0.08)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 100, 255, 200, 0.75)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 80, 200, 255, 0.58)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 150, 255, 180, 0.5)}
-          `
-        };
-      default:
-        return { 
-          stripBg: 'hsl(290, 100%, 50%)', 
-          bodyBg: 'hsl(290, 100%, 50%)', 
-          cardFill: 'hsla(300, 100%, 60%, 0.10)',
-          gradient: `
-            ${shadows.topRight},
-            ${shadows.topLeft},
-            ${buildAuraGradient(glow.mainW, glow.mainH, glow.mainX, glow.mainY, 200, 180, 255, 0.7)},
-            ${buildAuraGradient(glow.secW, glow.secH, glow.secX, glow.secY, 255, 150, 200, 0.55)},
-            ${buildAuraGradient(glow.terW, glow.terH, glow.terX, glow.terY, 150, 200, 255, 0.48)}
-          `
-        };
-    }
-  };
-
   const handleStart = (clientX: number) => {
     setIsDragging(true);
     setStartX(clientX);
@@ -750,6 +439,22 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
     }, 0);
   };
 
+  // Double tap on the active card toggles it as a favourite
+  const registerTap = (target: EventTarget) => {
+    if (!onToggleFavourite || !isDragging || Math.abs(dragOffset) > tapTolerance) return;
+    if (isEndCard(currentQuestion)) return;
+    // Taps on the card's own buttons don't count
+    if ((target as HTMLElement).closest('button')) return;
+    const now = Date.now();
+    if (now - lastTapRef.current < doubleTapDelay) {
+      lastTapRef.current = 0;
+      setHeartBurst({ key: now, filled: !favouriteIds?.has(currentQuestion.id) });
+      onToggleFavourite(currentQuestion.id);
+    } else {
+      lastTapRef.current = now;
+    }
+  };
+
   // Touch handlers
   const onTouchStart = (e: React.TouchEvent) => {
     handleStart(e.touches[0].clientX);
@@ -759,12 +464,16 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
     handleMove(e.touches[0].clientX);
   };
 
-  const onTouchEnd = () => {
+  const onTouchEnd = (e: React.TouchEvent) => {
+    registerTap(e.target);
+    lastTouchEndRef.current = Date.now();
     handleEnd();
   };
 
   // Mouse handlers
   const onMouseDown = (e: React.MouseEvent) => {
+    // Right click opens the context menu instead of starting a drag
+    if (e.button !== 0) return;
     handleStart(e.clientX);
   };
 
@@ -772,7 +481,11 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
     handleMove(e.clientX);
   };
 
-  const onMouseUp = () => {
+  const onMouseUp = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    if (Date.now() - lastTouchEndRef.current > 600) {
+      registerTap(e.target);
+    }
     handleEnd();
   };
 
@@ -803,19 +516,6 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
   // Incoming Slide: scale 0.8 → 1, rotation ±5° → 0°
   const incomingScale = 0.8 + (progress * 0.2);
 
-  // Determine which category color to show based on drag
-  const getActiveCategory = () => {
-    if (totalOffset < 0 && nextQuestion && progress > 0) {
-      return nextQuestion.category;
-    } else if (totalOffset > 0 && prevQuestion && progress > 0) {
-      return prevQuestion.category;
-    }
-    return currentQuestion.category;
-  };
-
-  const activeCategoryForColor = getActiveCategory();
-  const activeCategoryColors = getCategoryColors(activeCategoryForColor, questionIndex);
-
   // 5-slide window rendering helper
   // Position calculations:
   // prev-2: translateX(-200% - 32px) scale(0.8)
@@ -911,14 +611,35 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
 
   
 
+  // Same shell as a question card, without the strip and card actions
+  const renderEndCard = (question: Question, style: React.CSSProperties, cardQuestionIndex: number) => (
+    <div
+      ref={cardQuestionIndex === questionIndex ? activeCardRef : undefined}
+      className="absolute left-1/2 top-1/2 flex-shrink-0 rounded-2xl overflow-hidden"
+      style={{
+        ...style,
+        height: '80vh',
+        maxHeight: '80vh',
+        background: buildCardBackground(getCardTheme(question.category), cardQuestionIndex, question.id),
+        boxShadow: '-2px 0 24px 4px rgba(0, 0, 0, 0.24)',
+        width: 'calc(100% - 32px)',
+        maxWidth: isMobile ? 'calc(min(700px, 100%) - 32px)' : '500px',
+      }}
+    >
+      {endCard}
+    </div>
+  );
+
   const renderCard = (question: Question, style: React.CSSProperties, cardQuestionIndex: number) => {
-    const categoryColors = getCategoryColors(question.category, cardQuestionIndex);
+    if (isEndCard(question)) return renderEndCard(question, style, cardQuestionIndex);
+
+    const stripColor = getCategoryStyle(question.category).stripColor;
     const questionText = getQuestionText(question);
     const hyphenatedText = hyphenateQuestion(questionText);
     const showShimmer = isTranslating(question.question);
     const isCurrent = cardQuestionIndex === questionIndex;
     
-    return (
+    const card = (
       <div 
         ref={isCurrent ? activeCardRef : undefined}
         className="absolute left-1/2 top-1/2 flex-shrink-0 rounded-2xl overflow-hidden"
@@ -926,10 +647,7 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
           ...style,
           height: '80vh',
           maxHeight: '80vh',
-          background: `
-            ${categoryColors.gradient},
-            ${categoryColors.cardFill}
-          `,
+          background: buildCardBackground(getCardTheme(question.category), cardQuestionIndex, question.id),
           backdropFilter: 'blur(16px)',
           WebkitBackdropFilter: 'blur(16px)',
           boxShadow: '-2px 0 24px 4px rgba(0, 0, 0, 0.24)',
@@ -939,7 +657,7 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
       >
         {/* Category Strip */}
         <div className="absolute left-0 top-0 h-full w-8 flex items-center justify-center overflow-hidden"
-          style={{ backgroundColor: categoryColors.stripBg }}>
+          style={{ backgroundColor: stripColor }}>
           <div className="transform -rotate-90 whitespace-nowrap">
             {Array(20).fill(question.category).map((cat, index) => (
               <span 
@@ -983,11 +701,48 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
         
         {/* Share Button - On every card */}
         <ShareDialog 
-          questionIndex={cardQuestionIndex} 
+          questionId={question.id} 
           questionText={language === 'en' ? question.questionEn : question.question} 
+          categories={shareCategories}
         />
+
+        {/* Card actions */}
+        <div className="absolute bottom-8 right-8 z-30 flex items-center gap-5">
+          {onHide && (
+            <HideQuestionButton onHide={() => onHide(question.id)} />
+          )}
+          {onToggleFavourite && (
+            <FavouriteButton
+              isFavourite={favouriteIds?.has(question.id) ?? false}
+              onToggle={() => onToggleFavourite(question.id)}
+            />
+          )}
+        </div>
       </div>
     );
+
+    if (!onReport) return card;
+
+    // Always wrapped (disabled on side cards) so a card isn't remounted when it becomes active
+    return (
+      <ContextMenu>
+        <ContextMenuTrigger asChild disabled={!isCurrent}>
+          {card}
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-56">
+          <ContextMenuLabel className="flex items-center gap-2">
+            <Flag className="h-4 w-4" />
+            {t.reportQuestion}
+          </ContextMenuLabel>
+          <ContextMenuSeparator />
+          {REPORT_REASONS.map(reason => (
+            <ContextMenuItem key={reason} onSelect={() => onReport(question.id, reason, questionText)}>
+              {t.reportReasons[reason]}
+            </ContextMenuItem>
+          ))}
+        </ContextMenuContent>
+      </ContextMenu>
+    );
   };
 
   return (
@@ -1011,11 +766,12 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
         <div className="relative h-full w-full flex items-center justify-center">
           {/* Use frozen questions during click/keyboard transitions to prevent content jumping */}
           {(() => {
-            const displayCurrent = frozenQuestions?.current ?? currentQuestion;
-            const displayNext = frozenQuestions?.next ?? nextQuestion;
-            const displayPrev = frozenQuestions?.prev ?? prevQuestion;
-            const displayNext2 = frozenQuestions?.next2 ?? nextQuestion2;
-            const displayPrev2 = frozenQuestions?.prev2 ?? prevQuestion2;
+            // Frozen nulls are deliberate (no stacked cards during a jump), so no ??
+            const displayCurrent = frozenQuestions ? frozenQuestions.current : currentQuestion;
+            const displayNext = frozenQuestions ? frozenQuestions.next : nextQuestion;
+            const displayPrev = frozenQuestions ? frozenQuestions.prev : prevQuestion;
+            const displayNext2 = frozenQuestions ? frozenQuestions.next2 : nextQuestion2;
+            const displayPrev2 = frozenQuestions ? frozenQuestions.prev2 : prevQuestion2;
             const displayIndex = frozenQuestions?.questionIndex ?? questionIndex;
             
             return (
@@ -1038,6 +794,26 @@ export function QuizCard({ currentQuestion, nextQuestion, prevQuestion, nextQues
             );
           })()}
         </div>
+
+        {deckCategories && onScrub && (
+          <DeckScrubber
+            categories={deckCategories}
+            currentIndex={frozenQuestions?.questionIndex ?? questionIndex}
+            onScrub={onScrub}
+          />
+        )}
+
+        {heartBurst && (
+          <div className="absolute inset-0 z-40 flex items-center justify-center pointer-events-none">
+            <Heart
+              key={heartBurst.key}
+              className="heart-pop w-24 h-24 text-white drop-shadow-lg"
+              strokeWidth={1.5}
+              fill={heartBurst.filled ? 'currentColor' : 'none'}
+              onAnimationEnd={() => setHeartBurst(null)}
+            />
+          </div>
+        )}
         
         {/* Edge Click Zones */}
         {/* Left edge click zone */}
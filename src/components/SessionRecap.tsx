@@ -0,0 +1,182 @@
+import { useMemo } from 'react';
+import { Bar, BarChart, Cell, XAxis, YAxis } from 'recharts';
+import { Heart, Image as ImageIcon, Share2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { translateCategory } from '@/lib/questionTranslations';
+import { getCategoryStyle } from '@/lib/categories';
+import type { Question } from '@/lib/questions';
+import { formatDuration, isSkipped, summarizeSession, type SessionEntry } from '@/lib/sessionLog';
+import { buildRecapText, renderRecapImage, type RecapLabels } from '@/lib/recapShare';
+import { downloadFile } from '@/lib/download';
+
+interface SessionRecapProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entries: SessionEntry[];
+  /** Full deck, to look up question texts */
+  questions: Question[];
+}
+
+export function SessionRecap({ open, onOpenChange, entries, questions }: SessionRecapProps) {
+  const { language, t } = useLanguage();
+  const { toast } = useToast();
+
+  const recap = useMemo(() => summarizeSession(entries), [entries]);
+  const questionsById = useMemo(() => new Map(questions.map(q => [q.id, q])), [questions]);
+
+  const chartConfig = {
+    count: { label: t.recapQuestions },
+  } satisfies ChartConfig;
+  const chartData = recap.categories.map(({ category, count }) => ({
+    name: translateCategory(category, language),
+    count,
+    fill: getCategoryStyle(category).stripColor,
+  }));
+
+  const questionText = (question: Question) =>
+    language === 'en' && question.questionEn ? question.questionEn : question.question;
+
+  const labels: RecapLabels = {
+    title: t.recapTitle,
+    questions: t.recapQuestions,
+    favourites: t.favourites,
+    skipped: t.recapSkipped,
+    categoryName: category => translateCategory(category, language),
+    questionText,
+  };
+
+  const shareText = async () => {
+    const text = buildRecapText(recap, questionsById, labels);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: `Friends App – ${t.recapTitle}`, text });
+        return;
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+      }
+    }
+    try {
+      // Rejects without permission or outside a secure context
+      await navigator.clipboard.writeText(text);
+      toast({ title: t.recapCopied });
+    } catch (err) {
+      console.warn('Recap: could not copy text', err);
+      toast({ title: t.recapCopyFailed, variant: 'destructive' });
+    }
+  };
+
+  const shareImage = async () => {
+    try {
+      const blob = await renderRecapImage(recap, labels);
+      const file = new File([blob], 'friends-recap.png', { type: 'image/png' });
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: `Friends App – ${t.recapTitle}` });
+      } else {
+        downloadFile(file.name, blob);
+      }
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') {
+        console.warn('Recap: could not share image', err);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#161616] text-white border-0 max-h-[90svh] overflow-y-auto [&>button]:text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white">{t.recapTitle}</DialogTitle>
+          <DialogDescription className="text-white/60">
+            {recap.total.count} {t.recapQuestions} · {formatDuration(recap.total.timeOnCard)}
+            {' · '}{recap.total.favourited} {t.favourites} · {recap.total.skipped} {t.recapSkipped}
+          </DialogDescription>
+        </DialogHeader>
+
+        {recap.total.count === 0 ? (
+          <p className="text-white/60 text-sm">{t.recapEmpty}</p>
+        ) : (
+          <>
+            {/* Questions per category */}
+            <ChartContainer
+              config={chartConfig}
+              className="w-full"
+              style={{ height: `${Math.max(2, chartData.length) * 36}px` }}
+            >
+              <BarChart data={chartData} layout="vertical" margin={{ left: 0, right: 8 }}>
+                <XAxis type="number" dataKey="count" hide allowDecimals={false} />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  width={112}
+                  tickLine={false}
+                  axisLine={false}
+                  tick={{ fill: 'white', fontSize: 11 }}
+                />
+                <ChartTooltip cursor={false} content={<ChartTooltipContent hideLabel />} />
+                <Bar dataKey="count" radius={999}>
+                  {chartData.map(entry => (
+                    <Cell key={entry.name} fill={entry.fill} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+
+            {/* Questions played, grouped by category */}
+            <div className="space-y-4">
+              {recap.categories.map(({ category, count, entries: categoryEntries }) => (
+                <div key={category} className="space-y-2">
+                  <h3
+                    className="uppercase font-bold"
+                    style={{ fontSize: '12px', lineHeight: '16px', fontFamily: "'Factor A', sans-serif", color: getCategoryStyle(category).stripColor }}
+                  >
+                    {translateCategory(category, language)} ({count})
+                  </h3>
+                  <ul className="space-y-2" style={{ fontSize: '12px', lineHeight: '16px' }}>
+                    {categoryEntries.map(entry => {
+                      const question = questionsById.get(entry.questionId);
+                      if (!question) return null;
+                      const skipped = isSkipped(entry);
+                      return (
+                        <li key={entry.questionId} className="flex items-start justify-between gap-3">
+                          <span className={skipped ? 'text-white/40 line-through' : 'text-white/80'}>
+                            {questionText(question)}
+                          </span>
+                          <span className="flex shrink-0 items-center gap-2 text-white/50">
+                            {entry.favourited && <Heart className="h-3 w-3" fill="currentColor" aria-label={t.favourites} />}
+                            {formatDuration(entry.timeOnCard)}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={shareText}
+                className="flex flex-1 items-center justify-center gap-2 rounded-full bg-white/15 hover:bg-white/25 transition-colors px-4 py-2"
+                style={{ fontSize: '14px', lineHeight: '20px' }}
+              >
+                <Share2 className="h-4 w-4" />
+                {t.shareRecapText}
+              </button>
+              <button
+                onClick={shareImage}
+                className="flex flex-1 items-center justify-center gap-2 rounded-full bg-white/15 hover:bg-white/25 transition-colors px-4 py-2"
+                style={{ fontSize: '14px', lineHeight: '20px' }}
+              >
+                <ImageIcon className="h-4 w-4" />
+                {t.shareRecapImage}
+              </button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
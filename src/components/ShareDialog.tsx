@@ -1,13 +1,17 @@
 import { ArrowUpFromLine } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { readSeedFromUrl, SEED_PARAM } from '@/lib/shuffle';
+import { CATEGORIES_PARAM } from '@/lib/deckLink';
 
 interface ShareDialogProps {
-  questionIndex: number;
+  questionId: string;
   questionText?: string;
+  /** Category selection the deck was shuffled for; empty for all categories */
+  categories?: string[];
 }
 
-export function ShareDialog({ questionIndex, questionText }: ShareDialogProps) {
+export function ShareDialog({ questionId, questionText, categories = [] }: ShareDialogProps) {
   const { toast } = useToast();
   const { t } = useLanguage();
 
@@ -16,7 +20,12 @@ export function ShareDialog({ questionIndex, questionText }: ShareDialogProps) {
     const url = new URL(window.location.href);
     url.search = '';
     url.hash = '';
-    url.searchParams.set('q', questionText ? questionText : String(questionIndex));
+    // Stable ID survives reshuffles and text edits (see questionIds.ts)
+    url.searchParams.set('q', questionId);
+    // Same seed and selection, same deck order for everyone who opens the link
+    const seed = readSeedFromUrl();
+    if (seed) url.searchParams.set(SEED_PARAM, seed);
+    if (categories.length > 0) url.searchParams.set(CATEGORIES_PARAM, categories.join(','));
     const shareUrl = url.toString();
     
     const shareText = `${t.shareExcerpt}\n\n„${questionText}"`;
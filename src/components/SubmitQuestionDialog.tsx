@@ -0,0 +1,163 @@
+import { useEffect, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { translateCategory } from '@/lib/questionTranslations';
+import { sortCategories } from '@/lib/categories';
+import {
+  createSubmissionSchema,
+  NAME_MAX_LENGTH,
+  QUESTION_MAX_LENGTH,
+  submitQuestion,
+  type SubmissionValues,
+} from '@/lib/questionSubmissions';
+
+interface SubmitQuestionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Categories to suggest from */
+  categories: string[];
+}
+
+const fieldClassName = 'bg-transparent border-white/20 text-white placeholder:text-white/40';
+
+export function SubmitQuestionDialog({ open, onOpenChange, categories }: SubmitQuestionDialogProps) {
+  const { language, t } = useLanguage();
+  const { toast } = useToast();
+
+  const schema = useMemo(() => createSubmissionSchema(t.submissionErrors), [t]);
+  const form = useForm<SubmissionValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { question: '', category: '', language, name: '' },
+  });
+
+  // Start from an empty form in the current app language
+  useEffect(() => {
+    if (open) form.reset({ question: '', category: '', language, name: '' });
+  }, [open, language, form]);
+
+  const onSubmit = async (values: SubmissionValues) => {
+    try {
+      const result = await submitQuestion(values);
+      toast(result === 'sent'
+        ? { title: t.submissionSent, description: t.submissionSentDescription }
+        : { title: t.submissionQueued, description: t.submissionQueuedDescription });
+      onOpenChange(false);
+    } catch (error) {
+      console.warn('Question submission failed:', error);
+      toast({ title: t.submissionFailed, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#161616] text-white border-0 max-h-[90svh] overflow-y-auto [&>button]:text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white">{t.submitQuestion}</DialogTitle>
+          <DialogDescription className="text-white/60">{t.submitQuestionDescription}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="question"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t.submissionQuestion}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={3}
+                      maxLength={QUESTION_MAX_LENGTH}
+                      placeholder={t.submissionQuestionPlaceholder}
+                      className={fieldClassName}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t.submissionCategory}</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className={fieldClassName}>
+                        <SelectValue placeholder={t.submissionCategoryPlaceholder} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {sortCategories(categories).map(category => (
+                        <SelectItem key={category} value={category}>
+                          {translateCategory(category, language)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="language"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t.submissionLanguage}</FormLabel>
+                  <FormControl>
+                    <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                      {(['de', 'en'] as const).map(option => (
+                        <label key={option} className="flex items-center gap-2 cursor-pointer text-sm">
+                          <RadioGroupItem value={option} className="border-white text-white" />
+                          {option === 'de' ? 'Deutsch' : 'English'}
+                        </label>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t.submissionName}</FormLabel>
+                  <FormControl>
+                    <Input {...field} maxLength={NAME_MAX_LENGTH} autoComplete="name" className={fieldClassName} />
+                  </FormControl>
+                  <FormDescription className="text-white/50">{t.submissionNameDescription}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <button
+              type="submit"
+              disabled={form.formState.isSubmitting}
+              className="w-full rounded-full bg-white text-black hover:opacity-80 transition-opacity px-4 py-2 disabled:opacity-50"
+              style={{ fontSize: '14px', lineHeight: '20px' }}
+            >
+              {t.submissionSend}
+            </button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
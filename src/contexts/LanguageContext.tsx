@@ -4,6 +4,7 @@ type Language = 'de' | 'en';
 
 interface Translations {
   chooseCategories: string;
+  newRound: string;
   submitQuestion: string;
   noQuestionsAvailable: string;
   sendQuestion: string;
@@ -11,11 +12,131 @@ interface Translations {
   linkCopied: string;
   linkCopiedDescription: string;
   selectCategoriesDescription: string;
+  questionSource: string;
+  questionSources: Record<'supabase' | 'sheets' | 'static' | 'memory' | 'snapshot', string>;
+  snapshotFrom: string;
+  unseenFirst: string;
+  unseenOf: string;
+  notSeenYet: string;
+  resetSeen: string;
+  favourites: string;
+  favouritesOnly: string;
+  addFavourite: string;
+  removeFavourite: string;
+  noFavourites: string;
+  shareFavourites: string;
+  exportFavourites: string;
+  importFavourites: string;
+  importFavouritesPrompt: string;
+  favouritesInLink: string;
+  favouritesImported: string;
+  newFavourites: string;
+  importFailed: string;
+  importFailedDescription: string;
+  hideQuestion: string;
+  questionHidden: string;
+  questionHiddenDescription: string;
+  undo: string;
+  hiddenQuestions: string;
+  restore: string;
+  restoreAll: string;
+  endOfDeck: string;
+  questionsThisRound: string;
+  reshuffle: string;
+  addCategories: string;
+  endlessLoop: string;
+  viewRecap: string;
+  recapTitle: string;
+  recapQuestions: string;
+  recapSkipped: string;
+  recapEmpty: string;
+  recapCopied: string;
+  recapCopyFailed: string;
+  shareRecapText: string;
+  shareRecapImage: string;
+  searchQuestions: string;
+  searchQuestionsDescription: string;
+  searchPlaceholder: string;
+  noSearchResults: string;
+  browseQuestions: string;
+  back: string;
+  listView: string;
+  gridView: string;
+  questionsLabel: string;
+  sortBy: string;
+  sortOptions: Record<'category' | 'alphabetical' | 'length', string>;
+  categoryColumn: string;
+  questionColumn: string;
+  startHere: string;
+  deckProgress: string;
+  submitQuestionDescription: string;
+  submissionQuestion: string;
+  submissionQuestionPlaceholder: string;
+  submissionCategory: string;
+  submissionCategoryPlaceholder: string;
+  submissionLanguage: string;
+  submissionName: string;
+  submissionNameDescription: string;
+  submissionSend: string;
+  submissionSent: string;
+  submissionSentDescription: string;
+  submissionQueued: string;
+  submissionQueuedDescription: string;
+  submissionFailed: string;
+  submissionsDelivered: string;
+  submissionsDeliveredCount: string;
+  submissionErrors: Record<'questionTooShort' | 'questionTooLong' | 'categoryRequired' | 'nameTooLong', string>;
+  adminTitle: string;
+  adminSignIn: string;
+  adminSignInDescription: string;
+  adminEmail: string;
+  adminPassword: string;
+  adminEmailInvalid: string;
+  adminPasswordRequired: string;
+  adminSignInFailed: string;
+  adminSignOut: string;
+  adminNoAccess: string;
+  adminSubmissions: string;
+  adminLiveQuestions: string;
+  adminNoSubmissions: string;
+  adminSubmittedBy: string;
+  adminAnonymous: string;
+  adminApprove: string;
+  adminReject: string;
+  adminEdit: string;
+  adminRetire: string;
+  adminReactivate: string;
+  adminRetired: string;
+  adminShowRetired: string;
+  adminFilterPlaceholder: string;
+  adminPreview: string;
+  adminSave: string;
+  adminPublish: string;
+  adminEnglishText: string;
+  reportQuestion: string;
+  reportReasons: Record<'offensive' | 'wrong_translation' | 'duplicate' | 'typo', string>;
+  reportSent: string;
+  reportSentDescription: string;
+  reportAlreadySent: string;
+  reportFailed: string;
+  adminReports: string;
+  adminNoReports: string;
+  adminDismissReports: string;
+  adminReportsDismissed: string;
+  adminNotInDatabase: string;
+  adminSaved: string;
+  adminPublished: string;
+  adminRejected: string;
+  adminActionFailed: string;
+  updateAvailable: string;
+  updateAvailableDescription: string;
+  updateNow: string;
 }
 
 const translations: Record<Language, Translations> = {
   de: {
     chooseCategories: 'Kategorien wählen',
+    newRound: 'Neue Runde',
     submitQuestion: 'Frage einreichen',
     noQuestionsAvailable: 'Keine Fragen verfügbar',
     sendQuestion: 'Frage verschicken',
@@ -23,9 +144,149 @@ const translations: Record<Language, Translations> = {
     linkCopied: 'Link kopiert!',
     linkCopiedDescription: 'Der Share-Link wurde in die Zwischenablage kopiert',
     selectCategoriesDescription: 'Wählen Sie die Kategorien aus, die Sie sehen möchten',
+    questionSource: 'Quelle',
+    questionSources: {
+      supabase: 'Datenbank',
+      sheets: 'Google Sheets',
+      static: 'Statische Datei',
+      memory: 'Testdaten',
+      snapshot: 'Offline-Kopie',
+    },
+    snapshotFrom: 'vom',
+    unseenFirst: 'Ungesehene Fragen zuerst',
+    unseenOf: 'von',
+    notSeenYet: 'noch nicht gesehen',
+    resetSeen: 'Verlauf zurücksetzen',
+    favourites: 'Favoriten',
+    favouritesOnly: 'Nur Favoriten spielen',
+    addFavourite: 'Zu Favoriten hinzufügen',
+    removeFavourite: 'Aus Favoriten entfernen',
+    noFavourites: 'Noch keine Favoriten – tippe doppelt auf eine Karte oder auf das Herz',
+    shareFavourites: 'Link teilen',
+    exportFavourites: 'Exportieren',
+    importFavourites: 'Importieren',
+    importFavouritesPrompt: 'Favoriten aus dem Link übernehmen?',
+    favouritesInLink: 'Fragen im Link',
+    favouritesImported: 'Favoriten übernommen',
+    newFavourites: 'neue Favoriten',
+    importFailed: 'Import fehlgeschlagen',
+    importFailedDescription: 'Keine passenden Fragen in diesem Deck gefunden',
+    hideQuestion: 'Nicht mehr zeigen',
+    questionHidden: 'Frage ausgeblendet',
+    questionHiddenDescription: 'Sie kommt in keiner Runde mehr vor',
+    undo: 'Rückgängig',
+    hiddenQuestions: 'Ausgeblendete Fragen',
+    restore: 'Wiederherstellen',
+    restoreAll: 'Alle wiederherstellen',
+    endOfDeck: 'Das war die letzte Frage',
+    questionsThisRound: 'Fragen in dieser Runde',
+    reshuffle: 'Neu mischen',
+    addCategories: 'Kategorien hinzufügen',
+    endlessLoop: 'Endlos weiterspielen',
+    viewRecap: 'Rückblick ansehen',
+    recapTitle: 'Eure Runde',
+    recapQuestions: 'Fragen',
+    recapSkipped: 'übersprungen',
+    recapEmpty: 'Noch keine Fragen gespielt',
+    recapCopied: 'Rückblick kopiert!',
+    recapCopyFailed: 'Rückblick konnte nicht kopiert werden',
+    shareRecapText: 'Als Text teilen',
+    shareRecapImage: 'Als Bild teilen',
+    searchQuestions: 'Fragen suchen',
+    searchQuestionsDescription: 'Suche eine Frage und springe direkt zu ihr',
+    searchPlaceholder: 'Frage suchen …',
+    noSearchResults: 'Keine passende Frage gefunden',
+    browseQuestions: 'Alle Fragen',
+    back: 'Zurück',
+    listView: 'Liste',
+    gridView: 'Karten',
+    questionsLabel: 'Fragen',
+    sortBy: 'Sortieren',
+    sortOptions: {
+      category: 'Kategorie',
+      alphabetical: 'A–Z',
+      length: 'Länge',
+    },
+    categoryColumn: 'Kategorie',
+    questionColumn: 'Frage',
+    startHere: 'Hier starten',
+    deckProgress: 'Fortschritt im Deck',
+    submitQuestionDescription: 'Schlag uns eine Frage für die Friends App vor. Wir schauen uns jede Einsendung an.',
+    submissionQuestion: 'Deine Frage',
+    submissionQuestionPlaceholder: 'Was wolltest du schon immer mal fragen?',
+    submissionCategory: 'Kategorie',
+    submissionCategoryPlaceholder: 'Kategorie wählen',
+    submissionLanguage: 'Sprache',
+    submissionName: 'Name (optional)',
+    submissionNameDescription: 'Falls wir dich bei der Frage nennen dürfen',
+    submissionSend: 'Absenden',
+    submissionSent: 'Danke für deine Frage!',
+    submissionSentDescription: 'Wir schauen sie uns bald an',
+    submissionQueued: 'Frage gespeichert',
+    submissionQueuedDescription: 'Du bist offline – sie wird gesendet, sobald du wieder online bist',
+    submissionFailed: 'Die Frage konnte nicht gesendet werden',
+    submissionsDelivered: 'Gespeicherte Fragen wurden gesendet',
+    submissionsDeliveredCount: 'eingereichte Fragen',
+    submissionErrors: {
+      questionTooShort: 'Die Frage ist zu kurz',
+      questionTooLong: 'Die Frage ist zu lang',
+      categoryRequired: 'Bitte wähle eine Kategorie',
+      nameTooLong: 'Der Name ist zu lang',
+    },
+    adminTitle: 'Moderation',
+    adminSignIn: 'Anmelden',
+    adminSignInDescription: 'Nur für das Redaktionsteam',
+    adminEmail: 'E-Mail',
+    adminPassword: 'Passwort',
+    adminEmailInvalid: 'Bitte gib eine gültige E-Mail-Adresse ein',
+    adminPasswordRequired: 'Bitte gib dein Passwort ein',
+    adminSignInFailed: 'Anmeldung fehlgeschlagen',
+    adminSignOut: 'Abmelden',
+    adminNoAccess: 'Dieses Konto hat keine Admin-Rechte',
+    adminSubmissions: 'Einsendungen',
+    adminLiveQuestions: 'Live-Fragen',
+    adminNoSubmissions: 'Keine offenen Einsendungen',
+    adminSubmittedBy: 'von',
+    adminAnonymous: 'anonym',
+    adminApprove: 'Freigeben',
+    adminReject: 'Ablehnen',
+    adminEdit: 'Bearbeiten',
+    adminRetire: 'Zurückziehen',
+    adminReactivate: 'Wieder aktivieren',
+    adminRetired: 'Zurückgezogen',
+    adminShowRetired: 'Zurückgezogene zeigen',
+    adminFilterPlaceholder: 'Fragen filtern…',
+    adminPreview: 'Vorschau',
+    adminSave: 'Speichern',
+    adminPublish: 'Veröffentlichen',
+    adminEnglishText: 'Englischer Text',
+    reportQuestion: 'Frage melden',
+    reportReasons: {
+      offensive: 'Anstößig',
+      wrong_translation: 'Falsche Übersetzung',
+      duplicate: 'Doppelt',
+      typo: 'Tippfehler',
+    },
+    reportSent: 'Danke für deine Meldung',
+    reportSentDescription: 'Wir schauen uns die Frage an',
+    reportAlreadySent: 'Du hast diese Frage schon gemeldet',
+    reportFailed: 'Die Meldung konnte nicht gesendet werden',
+    adminReports: 'Meldungen',
+    adminNoReports: 'Keine Meldungen',
+    adminDismissReports: 'Erledigt',
+    adminReportsDismissed: 'Meldungen entfernt',
+    adminNotInDatabase: 'Nicht in der Datenbank',
+    adminSaved: 'Gespeichert',
+    adminPublished: 'Frage veröffentlicht',
+    adminRejected: 'Einsendung abgelehnt',
+    adminActionFailed: 'Aktion fehlgeschlagen',
+    updateAvailable: 'Neue Version verfügbar',
+    updateAvailableDescription: 'Lade neu, um die neueste Version zu nutzen',
+    updateNow: 'Aktualisieren',
   },
   en: {
     chooseCategories: 'Choose categories',
+    newRound: 'New round',
     submitQuestion: 'Submit question',
     noQuestionsAvailable: 'No questions available',
     sendQuestion: 'Send question',
@@ -33,6 +294,145 @@ const translations: Record<Language, Translations> = {
     linkCopied: 'Link copied!',
     linkCopiedDescription: 'Share link has been copied to clipboard',
     selectCategoriesDescription: 'Select the categories you want to see',
+    questionSource: 'Source',
+    questionSources: {
+      supabase: 'Database',
+      sheets: 'Google Sheets',
+      static: 'Static file',
+      memory: 'Test data',
+      snapshot: 'Offline copy',
+    },
+    snapshotFrom: 'from',
+    unseenFirst: 'Unseen questions first',
+    unseenOf: 'of',
+    notSeenYet: 'not seen yet',
+    resetSeen: 'Reset history',
+    favourites: 'Favourites',
+    favouritesOnly: 'Play favourites only',
+    addFavourite: 'Add to favourites',
+    removeFavourite: 'Remove from favourites',
+    noFavourites: 'No favourites yet – double-tap a card or tap the heart',
+    shareFavourites: 'Share link',
+    exportFavourites: 'Export',
+    importFavourites: 'Import',
+    importFavouritesPrompt: 'Import favourites from this link?',
+    favouritesInLink: 'questions in the link',
+    favouritesImported: 'Favourites imported',
+    newFavourites: 'new favourites',
+    importFailed: 'Import failed',
+    importFailedDescription: 'No matching questions found in this deck',
+    hideQuestion: 'Never show again',
+    questionHidden: 'Question hidden',
+    questionHiddenDescription: "It won't come up in any round again",
+    undo: 'Undo',
+    hiddenQuestions: 'Hidden questions',
+    restore: 'Restore',
+    restoreAll: 'Restore all',
+    endOfDeck: "That's the last question",
+    questionsThisRound: 'questions in this round',
+    reshuffle: 'Reshuffle',
+    addCategories: 'Add categories',
+    endlessLoop: 'Keep going endlessly',
+    viewRecap: 'View recap',
+    recapTitle: 'Your session',
+    recapQuestions: 'questions',
+    recapSkipped: 'skipped',
+    recapEmpty: 'No questions played yet',
+    recapCopied: 'Recap copied!',
+    recapCopyFailed: 'The recap could not be copied',
+    shareRecapText: 'Share as text',
+    shareRecapImage: 'Share as image',
+    searchQuestions: 'Search questions',
+    searchQuestionsDescription: 'Find a question and jump straight to it',
+    searchPlaceholder: 'Search questions…',
+    noSearchResults: 'No matching question found',
+    browseQuestions: 'All questions',
+    back: 'Back',
+    listView: 'List',
+    gridView: 'Cards',
+    questionsLabel: 'questions',
+    sortBy: 'Sort',
+    sortOptions: {
+      category: 'Category',
+      alphabetical: 'A–Z',
+      length: 'Length',
+    },
+    categoryColumn: 'Category',
+    questionColumn: 'Question',
+    startHere: 'Start here',
+    deckProgress: 'Deck progress',
+    submitQuestionDescription: 'Suggest a question for the Friends App. We read every submission.',
+    submissionQuestion: 'Your question',
+    submissionQuestionPlaceholder: 'What have you always wanted to ask?',
+    submissionCategory: 'Category',
+    submissionCategoryPlaceholder: 'Choose a category',
+    submissionLanguage: 'Language',
+    submissionName: 'Name (optional)',
+    submissionNameDescription: 'In case we may credit you for the question',
+    submissionSend: 'Submit',
+    submissionSent: 'Thanks for your question!',
+    submissionSentDescription: "We'll take a look soon",
+    submissionQueued: 'Question saved',
+    submissionQueuedDescription: "You're offline – it will be sent once you're back online",
+    submissionFailed: 'The question could not be sent',
+    submissionsDelivered: 'Saved questions have been sent',
+    submissionsDeliveredCount: 'submitted questions',
+    submissionErrors: {
+      questionTooShort: 'The question is too short',
+      questionTooLong: 'The question is too long',
+      categoryRequired: 'Please choose a category',
+      nameTooLong: 'The name is too long',
+    },
+    adminTitle: 'Moderation',
+    adminSignIn: 'Sign in',
+    adminSignInDescription: 'For the editorial team only',
+    adminEmail: 'Email',
+    adminPassword: 'Password',
+    adminEmailInvalid: 'Please enter a valid email address',
+    adminPasswordRequired: 'Please enter your password',
+    adminSignInFailed: 'Sign-in failed',
+    adminSignOut: 'Sign out',
+    adminNoAccess: 'This account has no admin rights',
+    adminSubmissions: 'Submissions',
+    adminLiveQuestions: 'Live questions',
+    adminNoSubmissions: 'No pending submissions',
+    adminSubmittedBy: 'by',
+    adminAnonymous: 'anonymous',
+    adminApprove: 'Approve',
+    adminReject: 'Reject',
+    adminEdit: 'Edit',
+    adminRetire: 'Retire',
+    adminReactivate: 'Reactivate',
+    adminRetired: 'Retired',
+    adminShowRetired: 'Show retired',
+    adminFilterPlaceholder: 'Filter questions…',
+    adminPreview: 'Preview',
+    adminSave: 'Save',
+    adminPublish: 'Publish',
+    adminEnglishText: 'English text',
+    reportQuestion: 'Report question',
+    reportReasons: {
+      offensive: 'Offensive',
+      wrong_translation: 'Wrong translation',
+      duplicate: 'Duplicate',
+      typo: 'Typo',
+    },
+    reportSent: 'Thanks for your report',
+    reportSentDescription: 'We will take a look at the question',
+    reportAlreadySent: "You've already reported this question",
+    reportFailed: 'The report could not be sent',
+    adminReports: 'Reports',
+    adminNoReports: 'No reports',
+    adminDismissReports: 'Resolved',
+    adminReportsDismissed: 'Reports cleared',
+    adminNotInDatabase: 'Not in the database',
+    adminSaved: 'Saved',
+    adminPublished: 'Question published',
+    adminRejected: 'Submission rejected',
+    adminActionFailed: 'Action failed',
+    updateAvailable: 'New version available',
+    updateAvailableDescription: 'Reload to use the latest version',
+    updateNow: 'Update',
   },
 };
 
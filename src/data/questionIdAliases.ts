@@ -0,0 +1,4 @@
+// Question ID → the ID the question is known by. scripts/sync-sheet.ts adds
+// an entry whenever edited sheet text keeps its stored ID; entries for typo
+// fixes outside the sync can be added by hand.
+export const questionIdAliases: Record<string, string> = {};
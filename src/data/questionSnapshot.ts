@@ -0,0 +1,45 @@
+// Generated by scripts/snapshot-questions.ts - do not edit by hand.
+import type { QuestionSnapshot } from '@/lib/questions';
+
+export const questionSnapshot: QuestionSnapshot = {
+  "createdAt": "2026-10-18T22:39:16.642Z",
+  "origin": "quiz_questions.csv",
+  "questions": [
+    {
+      "id": "q-0p3gva2",
+      "question": "Was ist deine Lieblings-Porno-Kategorie?",
+      "questionEn": "What is your favorite porn category?",
+      "category": "fuck"
+    },
+    {
+      "id": "q-18hjj5d",
+      "question": "Welche Fantasie würdest du gerne mal ausleben?",
+      "questionEn": "What fantasy would you like to live out?",
+      "category": "DIRTY"
+    },
+    {
+      "id": "q-1k6etl8",
+      "question": "Was war dein peinlichster Moment beim Sex?",
+      "questionEn": "What was your most embarrassing moment during sex?",
+      "category": "FAIL"
+    },
+    {
+      "id": "q-12ifg8v",
+      "question": "An welchem ungewöhnlichen Ort hattest du schon mal Sex?",
+      "questionEn": "What unusual place have you had sex?",
+      "category": "WILD"
+    },
+    {
+      "id": "q-0aqyj5f",
+      "question": "Was ist das Verrückteste, was du im Bett gemacht hast?",
+      "questionEn": "What's the craziest thing you've done in bed?",
+      "category": "CRAZY"
+    },
+    {
+      "id": "q-1r2u13q",
+      "question": "Welches Spielzeug sollte jeder mal ausprobiert haben?",
+      "questionEn": "What toy should everyone try at least once?",
+      "category": "TOYS"
+    }
+  ]
+};
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { isAdminUser } from '@/lib/moderation';
+
+/**
+ * Current Supabase auth session, kept up to date across sign-in, sign-out
+ * and token refreshes
+ */
+export function useAdminSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  return { session, loading, isAdmin: isAdminUser(session?.user) };
+}
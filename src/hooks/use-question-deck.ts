@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import type { Question } from '@/lib/questions';
+import { loadFromSources } from '@/lib/questionSources';
+import { readCachedDeck } from '@/lib/questionCache';
+import { setDeckThemes } from '@/lib/cardTheme';
+
+/**
+ * Read-only access to the deck for pages other than the swipe view: the
+ * cached deck when there is one (QuizApp keeps it fresh), the source chain
+ * otherwise
+ */
+export function useQuestionDeck() {
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const cached = await readCachedDeck();
+      if (cached) {
+        if (cancelled) return;
+        setDeckThemes(cached.themes);
+        setQuestions(cached.questions);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { questions: loaded, themes } = await loadFromSources();
+        if (cancelled) return;
+        setDeckThemes(themes);
+        setQuestions(loaded);
+      } catch (error) {
+        console.error('Error fetching questions:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { questions, loading };
+}
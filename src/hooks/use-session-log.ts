@@ -0,0 +1,50 @@
+import { useCallback, useRef, useState } from 'react';
+import type { Question } from '@/lib/questions';
+import type { SessionEntry } from '@/lib/sessionLog';
+
+/**
+ * Records the cards viewed this session and how long each was on screen.
+ * Call `view` whenever the current card changes (null for no card).
+ */
+export function useSessionLog() {
+  const [entries, setEntries] = useState<SessionEntry[]>([]);
+  // Card currently on screen and since when
+  const activeRef = useRef<{ questionId: string; since: number } | null>(null);
+
+  const addTime = (list: SessionEntry[], questionId: string, ms: number) =>
+    list.map(entry => (entry.questionId === questionId ? { ...entry, timeOnCard: entry.timeOnCard + ms } : entry));
+
+  const view = useCallback((question: Question | null, favourited = false) => {
+    const now = Date.now();
+    const previous = activeRef.current;
+    if (previous?.questionId === question?.id) return;
+
+    activeRef.current = question ? { questionId: question.id, since: now } : null;
+    setEntries(current => {
+      let next = previous ? addTime(current, previous.questionId, now - previous.since) : current;
+      if (question && !next.some(entry => entry.questionId === question.id)) {
+        next = [...next, {
+          questionId: question.id,
+          category: question.category,
+          firstViewedAt: now,
+          timeOnCard: 0,
+          favourited,
+          hidden: false,
+        }];
+      }
+      return next;
+    });
+  }, []);
+
+  const mark = useCallback((questionId: string, change: Partial<Pick<SessionEntry, 'favourited' | 'hidden'>>) => {
+    setEntries(current => current.map(entry => (entry.questionId === questionId ? { ...entry, ...change } : entry)));
+  }, []);
+
+  /** Entries including the time on the card that is showing right now */
+  const snapshot = useCallback((): SessionEntry[] => {
+    const active = activeRef.current;
+    return active ? addTime(entries, active.questionId, Date.now() - active.since) : entries;
+  }, [entries]);
+
+  return { entries, view, mark, snapshot };
+}
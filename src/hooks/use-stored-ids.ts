@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { readStoredIds, STORAGE_PREFIX, writeStoredIds } from '@/lib/localStore';
+
+/**
+ * A persisted set of question IDs, kept in sync across open tabs
+ */
+export function useStoredIds(key: string) {
+  const [ids, setIds] = useState<Set<string>>(() => readStoredIds(key));
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_PREFIX + key) {
+        setIds(readStoredIds(key));
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [key]);
+
+  const update = useCallback((change: (current: Set<string>) => Set<string>) => {
+    setIds(current => {
+      const next = change(current);
+      if (next !== current) writeStoredIds(key, next);
+      return next;
+    });
+  }, [key]);
+
+  const add = useCallback((id: string) => {
+    update(current => (current.has(id) ? current : new Set(current).add(id)));
+  }, [update]);
+
+  const remove = useCallback((id: string) => {
+    update(current => {
+      if (!current.has(id)) return current;
+      const next = new Set(current);
+      next.delete(id);
+      return next;
+    });
+  }, [update]);
+
+  const replace = useCallback((next: Iterable<string>) => {
+    update(() => new Set(next));
+  }, [update]);
+
+  const clear = useCallback(() => replace([]), [replace]);
+
+  return { ids, add, remove, replace, clear };
+}
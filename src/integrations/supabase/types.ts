@@ -14,30 +14,233 @@ export type Database = {
   }
   public: {
     Tables: {
-      "Friends App Questions": {
+      categories: {
+        Row: {
+          aliases: string[]
+          body_color: string
+          name_de: string
+          name_en: string
+          slug: string
+          sort_order: number
+          strip_color: string
+        }
+        Insert: {
+          aliases?: string[]
+          body_color: string
+          name_de: string
+          name_en: string
+          slug: string
+          sort_order: number
+          strip_color: string
+        }
+        Update: {
+          aliases?: string[]
+          body_color?: string
+          name_de?: string
+          name_en?: string
+          slug?: string
+          sort_order?: number
+          strip_color?: string
+        }
+        Relationships: []
+      }
+      question_reports: {
+        Row: {
+          created_at: string
+          id: string
+          locale: string
+          question_id: string
+          question_text: string
+          reason: Database["public"]["Enums"]["report_reason"]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          locale: string
+          question_id: string
+          question_text: string
+          reason: Database["public"]["Enums"]["report_reason"]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          locale?: string
+          question_id?: string
+          question_text?: string
+          reason?: Database["public"]["Enums"]["report_reason"]
+        }
+        Relationships: []
+      }
+      question_submissions: {
         Row: {
           category: string
+          client_id: string
+          created_at: string
+          id: string
+          language: string
           question: string
+          status: string
+          submitter_name: string | null
         }
         Insert: {
           category: string
+          client_id: string
+          created_at?: string
+          id?: string
+          language: string
           question: string
+          status?: string
+          submitter_name?: string | null
         }
         Update: {
           category?: string
+          client_id?: string
+          created_at?: string
+          id?: string
+          language?: string
           question?: string
+          status?: string
+          submitter_name?: string | null
         }
         Relationships: []
       }
+      question_translations: {
+        Row: {
+          locale: string
+          question_id: string
+          source: Database["public"]["Enums"]["translation_source"]
+          text: string
+          updated_at: string
+        }
+        Insert: {
+          locale: string
+          question_id: string
+          source?: Database["public"]["Enums"]["translation_source"]
+          text: string
+          updated_at?: string
+        }
+        Update: {
+          locale?: string
+          question_id?: string
+          source?: Database["public"]["Enums"]["translation_source"]
+          text?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_translations_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      questions: {
+        Row: {
+          category: string
+          created_at: string
+          id: string
+          status: Database["public"]["Enums"]["question_status"]
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          id: string
+          status?: Database["public"]["Enums"]["question_status"]
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: string
+          status?: Database["public"]["Enums"]["question_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      "Friends App Questions": {
+        Row: {
+          category: string | null
+          id: string | null
+          question: string | null
+          question_en: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      question_report_counts: {
+        Row: {
+          duplicate: number | null
+          last_reported_at: string | null
+          offensive: number | null
+          question_id: string | null
+          question_text: string | null
+          total: number | null
+          typo: number | null
+          wrong_translation: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      apply_deck_sync: {
+        Args: { changes: Json }
+        Returns: undefined
+      }
+      approve_submission: {
+        Args: { submission_id: string; question_text: string; question_category: string }
+        Returns: string
+      }
+      category_key: {
+        Args: { value: string }
+        Returns: string
+      }
+      category_slug: {
+        Args: { value: string }
+        Returns: string | null
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      question_hash_id: {
+        Args: { value: string }
+        Returns: string
+      }
+      update_live_question: {
+        Args: {
+          question_id: string
+          question_category: string
+          question_locale: string
+          question_text: string
+          question_en: string | null
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      question_status: "draft" | "live" | "retired"
+      report_reason: "offensive" | "wrong_translation" | "duplicate" | "typo"
+      translation_source: "human" | "machine"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -164,6 +367,10 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      question_status: ["draft", "live", "retired"],
+      report_reason: ["offensive", "wrong_translation", "duplicate", "typo"],
+      translation_source: ["human", "machine"],
+    },
   },
 } as const
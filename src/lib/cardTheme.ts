@@ -0,0 +1,261 @@
+// Card background engine. A theme is plain data (style, glow colours,
+// intensities, seed strategy) that is rendered into CSS gradients here, so
+// themes can come from the category registry or ship with a deck.
+import { z } from 'zod';
+import { fallbackCategoryStyle, getCategory, normalizeCategory } from '@/lib/categories';
+import { fnv1a } from '@/lib/questionIds';
+
+export const GRADIENT_STYLES = ['aura', 'flame', 'vertical-fog'] as const;
+export type GradientStyle = typeof GRADIENT_STYLES[number];
+
+/** The three seeded glow ellipses of a card, see getGlowPositions */
+export const GLOW_SLOTS = ['main', 'sec', 'ter'] as const;
+export type GlowSlot = typeof GLOW_SLOTS[number];
+
+/**
+ * How the per-card variation is seeded:
+ * - `position`: position in the deck, so neighbouring cards always differ
+ * - `question`: hash of the question ID, so a question always looks the same
+ * - `fixed`: `seedValue` for every card
+ */
+export const SEED_STRATEGIES = ['position', 'question', 'fixed'] as const;
+export type SeedStrategy = typeof SEED_STRATEGIES[number];
+
+const channel = z.number().int().min(0).max(255);
+// Colours only - themes may come from a remote deck
+const cssColor = z.string().trim().regex(
+  /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%]+\))$/i,
+  'Expected a hex, rgb() or hsl() colour'
+);
+
+const glowLayerSchema = z.object({
+  rgb: z.tuple([channel, channel, channel]),
+  intensity: z.number().min(0).max(1),
+  /** Seeded ellipse to position the layer on, defaults to main/sec/ter by index */
+  slot: z.enum(GLOW_SLOTS).optional(),
+  /** Slot to take the width from when it differs from the layer's own */
+  widthFrom: z.enum(GLOW_SLOTS).optional(),
+  /** Width and height multipliers */
+  scale: z.tuple([z.number().positive(), z.number().positive()]).optional(),
+  /** Offset of the centre in percentage points (x, y) */
+  shift: z.tuple([z.number(), z.number()]).optional(),
+});
+
+export const cardThemeSchema = z.object({
+  style: z.enum(GRADIENT_STYLES),
+  /** Translucent base layer of the card */
+  cardFill: cssColor,
+  glows: z.array(glowLayerSchema).min(1).max(6),
+  seed: z.enum(SEED_STRATEGIES).optional(),
+  seedValue: z.number().int().nonnegative().optional(),
+  /** Dark vignettes in the top corners, on unless set to false */
+  shadows: z.boolean().optional(),
+});
+
+export type GlowLayer = z.infer<typeof glowLayerSchema>;
+export type CardTheme = z.infer<typeof cardThemeSchema>;
+
+/** Themes keyed by category slug */
+export type CardThemeMap = Record<string, CardTheme>;
+
+// Generate randomized dark shadow positions for each slide based on the seed
+function getDarkShadows(seed: number) {
+  // Use seed to create pseudo-random but consistent values per slide
+  const rand1 = ((seed * 13) % 30) + 70; // 70-100% for top right x
+  const rand2 = ((seed * 17) % 25) + 5;  // 5-30% for top right y
+  const rand3 = ((seed * 23) % 35) + 40; // 40-75% ellipse width
+  const rand4 = ((seed * 29) % 30) + 30; // 30-60% ellipse height
+
+  const rand5 = ((seed * 31) % 25) + 5;  // 5-30% for top left x
+  const rand6 = ((seed * 37) % 20) + 5;  // 5-25% for top left y
+  const rand7 = ((seed * 41) % 30) + 35; // 35-65% ellipse width
+  const rand8 = ((seed * 43) % 25) + 30; // 30-55% ellipse height
+
+  return {
+    topRight: `radial-gradient(ellipse ${rand3}% ${rand4}% at ${rand1}% ${rand2}%, rgba(20, 25, 35, 0.25) 0%, transparent 70%)`,
+    topLeft: `radial-gradient(ellipse ${rand7}% ${rand8}% at ${rand5}% ${rand6}%, rgba(25, 30, 40, 0.22) 0%, transparent 70%)`
+  };
+}
+
+// Generate randomized glow positions - aura-like spread with varied shapes
+function getGlowPositions(seed: number) {
+  // More shape variety per slide
+  const shapeVariant = seed % 4;
+
+  // Main glow - larger aura spread
+  const mainX = ((seed * 47) % 18) + 58; // 58-76% x
+  const mainY = ((seed * 53) % 18) + 52; // 52-70% y
+  // Vary aspect ratios more dramatically for aura effect
+  const mainW = shapeVariant === 0 ? ((seed * 59) % 20) + 50 :
+                shapeVariant === 1 ? ((seed * 59) % 15) + 35 :
+                shapeVariant === 2 ? ((seed * 59) % 25) + 45 :
+                ((seed * 59) % 18) + 40;
+  const mainH = shapeVariant === 0 ? ((seed * 61) % 15) + 25 :
+                shapeVariant === 1 ? ((seed * 61) % 20) + 45 :
+                shapeVariant === 2 ? ((seed * 61) % 12) + 20 :
+                ((seed * 61) % 22) + 38;
+
+  // Secondary glow - offset aura layer
+  const secX = ((seed * 67) % 20) + 52; // 52-72% x
+  const secY = ((seed * 71) % 20) + 55; // 55-75% y
+  const secVariant = (seed + 1) % 4;
+  const secW = secVariant === 0 ? ((seed * 73) % 18) + 42 :
+               secVariant === 1 ? ((seed * 73) % 12) + 28 :
+               secVariant === 2 ? ((seed * 73) % 22) + 38 :
+               ((seed * 73) % 15) + 32;
+  const secH = secVariant === 0 ? ((seed * 79) % 12) + 20 :
+               secVariant === 1 ? ((seed * 79) % 18) + 38 :
+               secVariant === 2 ? ((seed * 79) % 10) + 18 :
+               ((seed * 79) % 20) + 35;
+
+  // Tertiary glow - outer aura layer
+  const terX = ((seed * 83) % 22) + 55; // 55-77% x
+  const terY = ((seed * 89) % 22) + 48; // 48-70% y
+  const terVariant = (seed + 2) % 4;
+  const terW = terVariant === 0 ? ((seed * 97) % 20) + 45 :
+               terVariant === 1 ? ((seed * 97) % 14) + 30 :
+               terVariant === 2 ? ((seed * 97) % 25) + 40 :
+               ((seed * 97) % 16) + 35;
+  const terH = terVariant === 0 ? ((seed * 101) % 14) + 22 :
+               terVariant === 1 ? ((seed * 101) % 20) + 40 :
+               terVariant === 2 ? ((seed * 101) % 12) + 18 :
+               ((seed * 101) % 18) + 32;
+
+  return {
+    main: { w: mainW, h: mainH, x: mainX, y: mainY },
+    sec: { w: secW, h: secH, x: secX, y: secY },
+    ter: { w: terW, h: terH, x: terX, y: terY },
+  };
+}
+
+type GradientBuilder = (w: number, h: number, x: number, y: number, r: number, g: number, b: number, intensity: number) => string;
+
+// Build simple radial glow gradient (circle style for most categories)
+const buildAuraGradient: GradientBuilder = (w, h, x, y, r, g, b, intensity) => {
+  return `radial-gradient(ellipse ${w}% ${h}% at ${x}% ${y}%,
+    rgba(${r}, ${g}, ${b}, ${intensity}) 0%,
+    rgba(${r}, ${g}, ${b}, ${intensity * 0.5}) 40%,
+    transparent 70%)`;
+};
+
+// Build flame-like glow rising from the bottom edge - visible flames
+const buildFlameGradient: GradientBuilder = (w, h, x, y, r, g, b, intensity) => {
+  const flame1 = `radial-gradient(ellipse ${w * 0.8}% ${h * 2.0}% at ${x}% 85%,
+    rgba(${r}, ${g}, ${b}, ${intensity}) 0%,
+    rgba(${r}, ${g * 0.5}, ${b * 0.3}, ${intensity * 0.6}) 35%,
+    transparent 70%)`;
+  const flame2 = `radial-gradient(ellipse ${w * 0.6}% ${h * 1.6}% at ${x - 20}% 90%,
+    rgba(255, 120, 20, ${intensity * 0.9}) 0%,
+    rgba(255, 50, 10, ${intensity * 0.5}) 40%,
+    transparent 75%)`;
+  const flame3 = `radial-gradient(ellipse ${w * 0.7}% ${h * 1.4}% at ${x + 25}% 88%,
+    rgba(255, 80, 50, ${intensity}) 0%,
+    rgba(200, 30, 30, ${intensity * 0.4}) 45%,
+    transparent 80%)`;
+  const flameCore = `radial-gradient(ellipse ${w}% ${h * 0.8}% at ${x}% 95%,
+    rgba(255, 220, 120, ${intensity * 0.8}) 0%,
+    rgba(255, 150, 50, ${intensity * 0.5}) 50%,
+    transparent 80%)`;
+  return `${flame1}, ${flame2}, ${flame3}, ${flameCore}`;
+};
+
+// Build vertical nebula fog gradient
+const buildVerticalFogGradient: GradientBuilder = (w, h, x, y, r, g, b, intensity) => {
+  const fogLayer1 = `radial-gradient(ellipse ${w * 0.4}% ${h * 1.8}% at ${x + 8}% ${y - 5}%,
+    rgba(${r}, ${g}, ${b}, ${intensity * 0.6}) 0%,
+    rgba(${r}, ${g}, ${b}, ${intensity * 0.3}) 40%,
+    transparent 70%)`;
+  const fogLayer2 = `radial-gradient(ellipse ${w * 0.35}% ${h * 2.5}% at ${x - 5}% ${y + 12}%,
+    rgba(${r}, ${g}, ${b}, ${intensity * 0.5}) 0%,
+    rgba(${r}, ${g}, ${b}, ${intensity * 0.2}) 50%,
+    transparent 80%)`;
+  const fogLayer3 = `radial-gradient(ellipse ${w * 0.5}% ${h * 1.4}% at ${x + 15}% ${y + 5}%,
+    rgba(${r}, ${g}, ${b}, ${intensity * 0.4}) 0%,
+    rgba(${r}, ${g}, ${b}, ${intensity * 0.15}) 60%,
+    transparent 90%)`;
+  return `${fogLayer1}, ${fogLayer2}, ${fogLayer3}`;
+};
+
+const gradientBuilders: Record<GradientStyle, GradientBuilder> = {
+  aura: buildAuraGradient,
+  flame: buildFlameGradient,
+  'vertical-fog': buildVerticalFogGradient,
+};
+
+// Themes shipped with the current deck, they take precedence over the registry
+let deckThemes: CardThemeMap = {};
+
+export function setDeckThemes(themes: CardThemeMap | undefined) {
+  deckThemes = themes ?? {};
+}
+
+export function getCardTheme(category: string): CardTheme {
+  return deckThemes[category] ?? getCategory(category)?.theme ?? fallbackCategoryStyle.theme;
+}
+
+function getSeed(theme: CardTheme, position: number, questionId?: string): number {
+  switch (theme.seed ?? 'position') {
+    case 'question':
+      return questionId ? parseInt(fnv1a(questionId), 36) % 997 : position;
+    case 'fixed':
+      return theme.seedValue ?? 0;
+    default:
+      return position;
+  }
+}
+
+/**
+ * Renders a theme into the card's `background` layers
+ * @param position index of the card in the deck
+ */
+export function buildCardBackground(theme: CardTheme, position: number, questionId?: string): string {
+  const seed = getSeed(theme, position, questionId);
+  const slots = getGlowPositions(seed);
+  const buildGradient = gradientBuilders[theme.style];
+
+  const layers = theme.glows.map((glow, index) => {
+    const slot = slots[glow.slot ?? GLOW_SLOTS[index % GLOW_SLOTS.length]];
+    const [scaleW, scaleH] = glow.scale ?? [1, 1];
+    const [shiftX, shiftY] = glow.shift ?? [0, 0];
+    const [r, g, b] = glow.rgb;
+    return buildGradient(
+      (glow.widthFrom ? slots[glow.widthFrom] : slot).w * scaleW,
+      slot.h * scaleH,
+      slot.x + shiftX,
+      slot.y + shiftY,
+      r, g, b,
+      glow.intensity
+    );
+  });
+
+  if (theme.shadows !== false) {
+    const shadows = getDarkShadows(seed);
+    layers.unshift(shadows.topRight, shadows.topLeft);
+  }
+
+  return [...layers, theme.cardFill].join(', ');
+}
+
+/**
+ * Validates themes shipped with a deck. Keys may be any spelling of a
+ * category; invalid themes are skipped and reported.
+ */
+export function parseCardThemes(raw: unknown): { themes: CardThemeMap; errors: string[] } {
+  const themes: CardThemeMap = {};
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { themes, errors: raw === undefined ? [] : ['Themes must be an object keyed by category'] };
+  }
+
+  for (const [category, value] of Object.entries(raw)) {
+    const result = cardThemeSchema.safeParse(value);
+    if (result.success) {
+      themes[normalizeCategory(category) ?? category.trim()] = result.data;
+    } else {
+      errors.push(`Theme "${category}": ${result.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+    }
+  }
+
+  return { themes, errors };
+}
@@ -0,0 +1,349 @@
+// Registry of known question categories. Sheet values are normalised against
+// slugs, display names and aliases, so "Self-Reflection", "self_reflection"
+// and "SELF REFLECTION" all end up as `self-reflection`.
+import type { CardTheme, GlowLayer } from '@/lib/cardTheme';
+
+export interface CategoryStyle {
+  /** Page background while a card of this category is shown (hsl with commas, interpolated on swipe) */
+  bodyColor: string;
+  /** Card strip and category screen colour */
+  stripColor: string;
+  /** Card background, see cardTheme.ts */
+  theme: CardTheme;
+}
+
+export interface CategoryDefinition extends CategoryStyle {
+  slug: string;
+  names: { de: string; en: string };
+  /** Additional spellings that should map to this category */
+  aliases?: string[];
+  /** Position in the category screen, ascending */
+  order: number;
+}
+
+const ORANGE = 'hsl(15, 100%, 50%)'; // #FF4100
+const RED = 'hsl(0, 100%, 50%)'; // #FF0000
+const PINK = 'hsl(328, 100%, 56%)'; // #FF20A2
+const MAGENTA = 'hsl(300, 100%, 50%)'; // #FF00FF
+const PURPLE = 'hsl(290, 100%, 50%)'; // #D400FF
+const VIOLET = 'hsl(278, 100%, 57%)'; // #af25ff
+
+const glow = (r: number, g: number, b: number, intensity: number, shape: Partial<GlowLayer> = {}): GlowLayer => ({
+  rgb: [r, g, b],
+  intensity,
+  ...shape,
+});
+
+export const categories: CategoryDefinition[] = [
+  {
+    slug: 'wer-aus-der-runde',
+    names: { de: 'Wer aus der Runde', en: 'Which of us' },
+    aliases: ['which of us'],
+    order: 10,
+    bodyColor: VIOLET,
+    stripColor: VIOLET,
+    theme: {
+      style: 'aura',
+      cardFill: 'rgba(60, 180, 160, 0.15)',
+      glows: [glow(100, 220, 200, 0.75), glow(255, 80, 80, 0.55), glow(100, 255, 150, 0.5)],
+    },
+  },
+  {
+    slug: 'friends',
+    names: { de: 'Friends', en: 'Friends' },
+    aliases: ['freunde'],
+    order: 20,
+    bodyColor: VIOLET,
+    stripColor: VIOLET,
+    theme: {
+      style: 'aura',
+      cardFill: 'rgba(60, 180, 160, 0.15)',
+      glows: [glow(100, 220, 200, 0.75), glow(255, 80, 80, 0.55), glow(100, 255, 150, 0.5)],
+    },
+  },
+  {
+    slug: 'party',
+    names: { de: 'Party', en: 'Party' },
+    order: 30,
+    bodyColor: MAGENTA,
+    stripColor: MAGENTA,
+    theme: {
+      style: 'vertical-fog',
+      cardFill: 'rgba(180, 30, 30, 0.18)',
+      glows: [glow(255, 30, 60, 0.75), glow(255, 50, 200, 0.65), glow(200, 30, 255, 0.6)],
+    },
+  },
+  {
+    slug: 'self-reflection',
+    names: { de: 'Self Reflection', en: 'Self Reflection' },
+    aliases: ['selbstreflexion'],
+    order: 40,
+    bodyColor: PURPLE,
+    stripColor: PURPLE,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(340, 100%, 35%, 0.12)',
+      glows: [glow(255, 180, 120, 0.7), glow(200, 100, 255, 0.6), glow(255, 200, 100, 0.5)],
+    },
+  },
+  {
+    slug: 'family',
+    names: { de: 'Family', en: 'Family' },
+    aliases: ['familie'],
+    order: 50,
+    bodyColor: PINK,
+    stripColor: PINK,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(300, 100%, 60%, 0.10)',
+      glows: [glow(255, 180, 200, 0.7), glow(255, 100, 180, 0.55), glow(200, 150, 255, 0.5)],
+    },
+  },
+  {
+    slug: 'fuck',
+    names: { de: 'Fuck', en: 'Fuck' },
+    order: 60,
+    bodyColor: ORANGE,
+    stripColor: ORANGE,
+    theme: {
+      style: 'flame',
+      cardFill: 'rgba(150, 10, 10, 0.35)',
+      glows: [
+        glow(255, 60, 30, 0.85),
+        glow(255, 100, 50, 0.7, { scale: [0.8, 1], shift: [10, 0] }),
+        glow(255, 40, 20, 0.75, { scale: [0.6, 1], shift: [-5, 0] }),
+      ],
+    },
+  },
+  {
+    slug: 'deep',
+    names: { de: 'Deep', en: 'Deep' },
+    order: 70,
+    bodyColor: PURPLE,
+    stripColor: PURPLE,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(300, 100%, 60%, 0.10)',
+      glows: [glow(200, 180, 255, 0.7), glow(255, 150, 200, 0.55), glow(150, 200, 255, 0.48)],
+    },
+  },
+  {
+    slug: 'work',
+    names: { de: 'Work', en: 'Work' },
+    aliases: ['arbeit'],
+    order: 80,
+    bodyColor: PURPLE,
+    stripColor: PURPLE,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(300, 100%, 60%, 0.10)',
+      glows: [glow(200, 180, 255, 0.7), glow(255, 150, 200, 0.55), glow(150, 200, 255, 0.48)],
+    },
+  },
+  {
+    slug: 'connection',
+    names: { de: 'Connection', en: 'Connection' },
+    order: 90,
+    bodyColor: RED,
+    stripColor: RED,
+    theme: {
+      style: 'aura',
+      cardFill: 'rgba(90, 25, 45, 0.35)',
+      glows: [glow(255, 80, 150, 0.72), glow(255, 140, 50, 0.55), glow(255, 120, 180, 0.5)],
+    },
+  },
+  {
+    slug: 'identity',
+    names: { de: 'Identity', en: 'Identity' },
+    order: 100,
+    bodyColor: PINK,
+    stripColor: PINK,
+    theme: {
+      style: 'aura',
+      cardFill: 'rgba(60, 10, 25, 0.22)',
+      glows: [
+        glow(255, 140, 30, 0.6, { widthFrom: 'sec', scale: [1, 1.2], shift: [15, -10] }),
+        glow(255, 120, 20, 0.55, { widthFrom: 'main', scale: [0.8, 1], shift: [-10, 5] }),
+        glow(255, 50, 30, 0.35, { scale: [1.3, 0.7] }),
+      ],
+    },
+  },
+  {
+    slug: 'career',
+    names: { de: 'Career', en: 'Career' },
+    aliases: ['karriere'],
+    order: 110,
+    bodyColor: PURPLE,
+    stripColor: PURPLE,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(340, 100%, 35%, 0.12)',
+      glows: [glow(100, 180, 255, 0.7), glow(150, 100, 255, 0.58), glow(100, 220, 200, 0.48)],
+    },
+  },
+  {
+    slug: 'travel',
+    names: { de: 'Travel', en: 'Travel' },
+    aliases: ['reisen'],
+    order: 120,
+    bodyColor: ORANGE,
+    stripColor: ORANGE,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(175, 70%, 40%, 0.08)',
+      glows: [glow(80, 220, 200, 0.75), glow(100, 180, 255, 0.58), glow(150, 255, 180, 0.48)],
+    },
+  },
+  {
+    slug: 'health',
+    names: { de: 'Health', en: 'Health' },
+    aliases: ['gesundheit'],
+    order: 130,
+    bodyColor: MAGENTA,
+    stripColor: MAGENTA,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(0, 100%, 40%, 0.10)',
+      glows: [glow(120, 255, 150, 0.72), glow(100, 200, 255, 0.58), glow(200, 255, 150, 0.48)],
+    },
+  },
+  {
+    slug: 'money',
+    names: { de: 'Money', en: 'Money' },
+    aliases: ['geld'],
+    order: 140,
+    bodyColor: PURPLE,
+    stripColor: PURPLE,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(340, 100%, 35%, 0.12)',
+      glows: [glow(255, 220, 100, 0.75), glow(255, 180, 50, 0.6), glow(200, 255, 100, 0.48)],
+    },
+  },
+  {
+    slug: 'love',
+    names: { de: 'Love', en: 'Love' },
+    aliases: ['liebe'],
+    order: 150,
+    bodyColor: ORANGE,
+    stripColor: ORANGE,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(300, 100%, 60%, 0.10)',
+      glows: [glow(255, 120, 150, 0.72), glow(255, 80, 120, 0.58), glow(255, 180, 200, 0.5)],
+    },
+  },
+  {
+    slug: 'hobby',
+    names: { de: 'Hobby', en: 'Hobby' },
+    aliases: ['hobbies', 'hobbys'],
+    order: 160,
+    bodyColor: PINK,
+    stripColor: PINK,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(175, 70%, 40%, 0.08)',
+      glows: [glow(100, 200, 255, 0.7), glow(150, 100, 255, 0.58), glow(100, 255, 220, 0.48)],
+    },
+  },
+  {
+    slug: 'dreams',
+    names: { de: 'Dreams', en: 'Dreams' },
+    aliases: ['träume'],
+    order: 170,
+    bodyColor: MAGENTA,
+    stripColor: MAGENTA,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(0, 100%, 40%, 0.10)',
+      glows: [glow(200, 150, 255, 0.75), glow(255, 100, 200, 0.58), glow(150, 200, 255, 0.5)],
+    },
+  },
+  {
+    slug: 'fear',
+    names: { de: 'Fear', en: 'Fear' },
+    aliases: ['angst'],
+    order: 180,
+    bodyColor: RED,
+    stripColor: RED,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(340, 100%, 35%, 0.12)',
+      glows: [glow(100, 120, 180, 0.7), glow(80, 100, 200, 0.55), glow(150, 100, 180, 0.48)],
+    },
+  },
+  {
+    slug: 'wisdom',
+    names: { de: 'Wisdom', en: 'Wisdom' },
+    aliases: ['weisheit'],
+    order: 190,
+    bodyColor: PURPLE,
+    stripColor: PURPLE,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(300, 100%, 60%, 0.10)',
+      glows: [glow(255, 220, 180, 0.72), glow(255, 180, 120, 0.55), glow(220, 200, 150, 0.48)],
+    },
+  },
+  {
+    slug: 'future',
+    names: { de: 'Future', en: 'Future' },
+    aliases: ['zukunft'],
+    order: 200,
+    bodyColor: ORANGE,
+    stripColor: ORANGE,
+    theme: {
+      style: 'aura',
+      cardFill: 'hsla(175, 70%, 40%, 0.08)',
+      glows: [glow(100, 255, 200, 0.75), glow(80, 200, 255, 0.58), glow(150, 255, 180, 0.5)],
+    },
+  },
+];
+
+/** Look of categories that are not in the registry */
+export const fallbackCategoryStyle: CategoryStyle = {
+  bodyColor: PURPLE,
+  stripColor: PURPLE,
+  theme: {
+    style: 'aura',
+    cardFill: 'hsla(300, 100%, 60%, 0.10)',
+    glows: [glow(200, 180, 255, 0.7), glow(255, 150, 200, 0.55), glow(150, 200, 255, 0.48)],
+  },
+};
+
+/**
+ * Lowercases and collapses separators: "Self-Reflection " → "self reflection"
+ */
+function categoryKey(value: string): string {
+  return value.normalize('NFC').toLowerCase().replace(/[-_\s]+/g, ' ').trim();
+}
+
+const categoryByKey = new Map<string, CategoryDefinition>();
+categories.forEach(category => {
+  [category.slug, category.names.de, category.names.en, ...(category.aliases ?? [])].forEach(name => {
+    categoryByKey.set(categoryKey(name), category);
+  });
+});
+
+/**
+ * Returns the registry slug for a raw category value, or null if unknown
+ */
+export function normalizeCategory(raw: string): string | null {
+  return categoryByKey.get(categoryKey(raw))?.slug ?? null;
+}
+
+export function getCategory(slug: string): CategoryDefinition | undefined {
+  return categoryByKey.get(categoryKey(slug));
+}
+
+export function getCategoryStyle(category: string): CategoryStyle {
+  return getCategory(category) ?? fallbackCategoryStyle;
+}
+
+/**
+ * Sorts categories by registry order; unknown ones keep their relative order at the end
+ */
+export function sortCategories(slugs: string[]): string[] {
+  const order = (slug: string) => getCategory(slug)?.order ?? Number.MAX_SAFE_INTEGER;
+  return [...slugs].sort((a, b) => order(a) - order(b));
+}
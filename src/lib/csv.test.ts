@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvParser, parseCsv, parseCsvStream } from '@/lib/csv';
+
+/** Feeds the text to an incremental parser in the given pieces */
+function parseChunks(...chunks: string[]) {
+  const parser = createCsvParser();
+  chunks.forEach(chunk => parser.push(chunk));
+  return parser.end();
+}
+
+const values = (result: ReturnType<typeof parseCsv>) => result.records.map(record => record.values);
+
+describe('parseCsv', () => {
+  it('keeps line breaks, delimiters and escaped quotes inside quoted fields', () => {
+    const result = parseCsv([
+      'question,category',
+      '"Zeile eins\nZeile zwei",deep',
+      '"Kaffee, Tee oder Wasser?",party',
+      '"Wer sagt ""nie wieder""?",friends',
+      'last,family',
+    ].join('\n'));
+
+    expect(result.errors).toEqual([]);
+    expect(values(result)).toEqual([
+      { question: 'Zeile eins\nZeile zwei', category: 'deep' },
+      { question: 'Kaffee, Tee oder Wasser?', category: 'party' },
+      { question: 'Wer sagt "nie wieder"?', category: 'friends' },
+      { question: 'last', category: 'family' },
+    ]);
+    // Record lines count the line break inside the first quoted field
+    expect(result.records.map(record => record.line)).toEqual([2, 4, 5, 6]);
+  });
+
+  it('strips a leading BOM from the first header', () => {
+    const result = parseCsv('\ufeffquestion,category\nHallo?,deep');
+    expect(result.headers).toEqual(['question', 'category']);
+    expect(values(result)).toEqual([{ question: 'Hallo?', category: 'deep' }]);
+  });
+
+  it('detects semicolon and tab delimiters from the header row', () => {
+    const semicolon = parseCsv('question;category\n"Eins, zwei?";deep');
+    expect(semicolon.delimiter).toBe(';');
+    expect(values(semicolon)).toEqual([{ question: 'Eins, zwei?', category: 'deep' }]);
+
+    const tab = parseCsv('question\tcategory\nEins; zwei?\tdeep');
+    expect(tab.delimiter).toBe('\t');
+    expect(values(tab)).toEqual([{ question: 'Eins; zwei?', category: 'deep' }]);
+  });
+
+  it('reports an unterminated quote on the line where its record starts', () => {
+    const result = parseCsv('question,category\nok,deep\n"never closed,deep\nmore,party');
+    expect(values(result)).toEqual([{ question: 'ok', category: 'deep' }]);
+    expect(result.errors).toEqual([{ line: 3, message: 'Unterminated quoted field' }]);
+  });
+});
+
+describe('createCsvParser', () => {
+  it('treats CRLF split across two chunks as one line break', () => {
+    const result = parseChunks('question,category\r\nEins?,deep\r', '\nZwei?,party\r\n');
+    expect(result.errors).toEqual([]);
+    expect(values(result)).toEqual([
+      { question: 'Eins?', category: 'deep' },
+      { question: 'Zwei?', category: 'party' },
+    ]);
+    expect(result.records.map(record => record.line)).toEqual([2, 3]);
+  });
+
+  it('counts a CRLF split inside a quoted field once', () => {
+    const result = parseChunks('question,category\r\n"Eins\r', '\nZwei",deep\r\nDrei?,party');
+    expect(values(result)).toEqual([
+      { question: 'Eins\r\nZwei', category: 'deep' },
+      { question: 'Drei?', category: 'party' },
+    ]);
+    expect(result.records.map(record => record.line)).toEqual([2, 4]);
+  });
+
+  it('waits for the full header line before detecting the delimiter', () => {
+    const result = parseChunks('\ufeffquest', 'ion;cat', 'egory\nHallo?;deep');
+    expect(result.delimiter).toBe(';');
+    expect(values(result)).toEqual([{ question: 'Hallo?', category: 'deep' }]);
+  });
+});
+
+describe('parseCsvStream', () => {
+  it('decodes characters split across byte chunks', async () => {
+    const bytes = new TextEncoder().encode('question,category\nÄrger?,deep');
+    const split = bytes.indexOf(0xc3) + 1; // Inside the two bytes of "Ä"
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, split));
+        controller.enqueue(bytes.slice(split));
+        controller.close();
+      },
+    });
+
+    expect(values(await parseCsvStream(stream))).toEqual([{ question: 'Ärger?', category: 'deep' }]);
+  });
+});
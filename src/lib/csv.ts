@@ -0,0 +1,243 @@
+// RFC 4180 CSV parser that can be fed incrementally (e.g. from a fetch stream).
+// Handles quoted fields with embedded delimiters, quotes and line breaks,
+// CRLF / LF / CR line endings, a leading BOM and comma, semicolon or tab
+// delimited exports.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface CsvRecord {
+  /** 1-based line number where the record starts in the source */
+  line: number;
+  /** Field values keyed by (lowercased, trimmed) header name */
+  values: Record<string, string>;
+}
+
+export interface CsvParseError {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  delimiter: CsvDelimiter;
+  records: CsvRecord[];
+  errors: CsvParseError[];
+}
+
+interface CsvParserOptions {
+  /** Force a delimiter instead of detecting it from the header row */
+  delimiter?: CsvDelimiter;
+}
+
+const DELIMITER_CANDIDATES: CsvDelimiter[] = [',', ';', '\t'];
+
+/**
+ * Picks the delimiter that occurs most often outside quotes in the first line
+ */
+function detectDelimiter(sample: string): CsvDelimiter {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+
+  for (const char of sample) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && char in counts) {
+      counts[char]++;
+    }
+  }
+
+  return DELIMITER_CANDIDATES.reduce((best, candidate) =>
+    counts[candidate] > counts[best] ? candidate : best
+  , ',');
+}
+
+/**
+ * Incremental CSV parser. Call `push` with text chunks as they arrive and
+ * `end` once the input is complete to get the parsed result.
+ */
+export function createCsvParser(options: CsvParserOptions = {}) {
+  let delimiter: CsvDelimiter | null = options.delimiter ?? null;
+  let pending = ''; // Buffered input until the delimiter is known
+  let started = false;
+
+  let headers: string[] | null = null;
+  const records: CsvRecord[] = [];
+  const errors: CsvParseError[] = [];
+
+  // Tokenizer state - survives chunk boundaries
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+  let quoteClosed = false; // Just saw the closing quote of a quoted field
+  let fieldWasQuoted = false;
+  let skipLineFeed = false; // Previous chunk ended in CR
+  let prevChar = '';
+  let line = 1;
+  let rowStartLine = 1;
+  let rowError: string | null = null;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    fieldWasQuoted = false;
+    quoteClosed = false;
+  };
+
+  const endRow = () => {
+    endField();
+    const isBlank = row.length === 1 && row[0] === '' && !rowError;
+
+    if (!isBlank) {
+      if (!headers) {
+        headers = row.map(h => h.trim().toLowerCase());
+      } else if (rowError) {
+        errors.push({ line: rowStartLine, message: rowError });
+      } else if (row.length > headers.length && row.slice(headers.length).some(v => v.trim() !== '')) {
+        errors.push({
+          line: rowStartLine,
+          message: `Expected ${headers.length} fields but found ${row.length}`,
+        });
+      } else {
+        const values: Record<string, string> = {};
+        headers.forEach((header, index) => {
+          if (header) values[header] = row[index] ?? '';
+        });
+        records.push({ line: rowStartLine, values });
+      }
+    }
+
+    row = [];
+    rowError = null;
+    rowStartLine = line;
+  };
+
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const previous = prevChar;
+      prevChar = char;
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          quoteClosed = true;
+        } else {
+          if (char === '\r' || (char === '\n' && previous !== '\r')) line++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (quoteClosed) {
+          // Escaped quote ("") inside a quoted field
+          field += '"';
+          inQuotes = true;
+          quoteClosed = false;
+        } else if (field === '' && !fieldWasQuoted) {
+          inQuotes = true;
+          fieldWasQuoted = true;
+        } else {
+          rowError ??= `Unexpected quote in unquoted field ${row.length + 1}`;
+          field += char;
+        }
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r') {
+          if (i + 1 < text.length) {
+            if (text[i + 1] === '\n') i++;
+          } else {
+            skipLineFeed = true;
+          }
+        }
+        line++;
+        endRow();
+      } else {
+        if (quoteClosed) {
+          rowError ??= `Unexpected character after closing quote in field ${row.length + 1}`;
+        }
+        field += char;
+      }
+    }
+  };
+
+  const push = (chunk: string) => {
+    if (!started) {
+      pending += chunk;
+      if (pending.charCodeAt(0) === 0xfeff) {
+        pending = pending.slice(1);
+      }
+      // Need at least the full header line to detect the delimiter
+      if (!delimiter && !/[\r\n]/.test(pending)) return;
+      started = true;
+      delimiter ??= detectDelimiter(pending);
+      chunk = pending;
+      pending = '';
+    }
+    consume(chunk);
+  };
+
+  const end = (): CsvParseResult => {
+    if (!started) {
+      started = true;
+      delimiter ??= detectDelimiter(pending);
+      consume(pending);
+      pending = '';
+    }
+
+    if (inQuotes) {
+      rowError ??= 'Unterminated quoted field';
+      inQuotes = false;
+    }
+    if (field !== '' || row.length > 0 || fieldWasQuoted || rowError) {
+      endRow();
+    }
+
+    return {
+      headers: headers ?? [],
+      delimiter: delimiter ?? ',',
+      records,
+      errors,
+    };
+  };
+
+  return { push, end };
+}
+
+/**
+ * Parses a complete CSV document
+ */
+export function parseCsv(text: string, options?: CsvParserOptions): CsvParseResult {
+  const parser = createCsvParser(options);
+  parser.push(text);
+  return parser.end();
+}
+
+/**
+ * Parses a CSV byte stream (e.g. `response.body`) chunk by chunk
+ */
+export async function parseCsvStream(
+  stream: ReadableStream<Uint8Array>,
+  options?: CsvParserOptions
+): Promise<CsvParseResult> {
+  const parser = createCsvParser(options);
+  const decoder = new TextDecoder('utf-8');
+  const reader = stream.getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+
+  return parser.end();
+}
@@ -0,0 +1,21 @@
+// Links that open the swipe view on a given question with a category filter,
+// e.g. from the browse page: `/?q=<id>&cats=deep,party`.
+export const CATEGORIES_PARAM = 'cats';
+
+export function buildDeckLink(questionId: string, categories: string[] = []): string {
+  const params = new URLSearchParams({ q: questionId });
+  if (categories.length > 0) params.set(CATEGORIES_PARAM, categories.join(','));
+  return `/?${params.toString()}`;
+}
+
+export function readCategoriesFromUrl(): string[] {
+  const value = new URLSearchParams(window.location.search).get(CATEGORIES_PARAM);
+  return value ? value.split(',').map(category => category.trim()).filter(Boolean) : [];
+}
+
+/** The filter only applies when the link is opened, not on later reloads */
+export function removeCategoriesFromUrl() {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(CATEGORIES_PARAM);
+  window.history.replaceState(window.history.state, '', url);
+}
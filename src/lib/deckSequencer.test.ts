@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { sequenceDeck } from '@/lib/deckSequencer';
+import { createSeededRandom } from '@/lib/shuffle';
+import type { Question } from '@/lib/questions';
+
+function makeDeck(counts: Record<string, number>): Question[] {
+  return Object.entries(counts).flatMap(([category, count]) =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `${category}-${index}`,
+      question: `${category} ${index}`,
+      questionEn: `${category} ${index}`,
+      category,
+    })));
+}
+
+/** Positions whose category already appeared within the last `gap` cards */
+function countGapBreaks(questions: Question[], gap: number): number {
+  return questions.filter((question, index) =>
+    questions.slice(Math.max(0, index - gap), index).some(previous => previous.category === question.category)).length;
+}
+
+/** The gap can be kept iff the largest categories fit every (gap + 1)th slot */
+function gapIsAchievable(counts: number[], gap: number): boolean {
+  const most = Math.max(...counts);
+  const tied = counts.filter(count => count === most).length;
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return (most - 1) * (gap + 1) + tied <= total;
+}
+
+describe('sequenceDeck', () => {
+  it('keeps the minimum gap whenever the deck allows it', () => {
+    const random = createSeededRandom('gap');
+    let checked = 0;
+
+    for (let run = 0; run < 500; run++) {
+      const gap = 1 + Math.floor(random() * 3);
+      const counts = Array.from({ length: 3 + Math.floor(random() * 5) }, () => 1 + Math.floor(random() * 15));
+      if (!gapIsAchievable(counts, gap)) continue;
+      checked++;
+
+      const deck = makeDeck(Object.fromEntries(counts.map((count, index) => [`c${index}`, count])));
+      const result = sequenceDeck(deck, { minGap: gap, random });
+      expect(result.questions).toHaveLength(deck.length);
+      expect(result.gapViolations).toBe(0);
+      expect(countGapBreaks(result.questions, gap)).toBe(0);
+    }
+    expect(checked).toBeGreaterThan(100);
+  });
+
+  it('keeps the gap when two large categories are tied', () => {
+    const deck = makeDeck({ c0: 12, c1: 5, c2: 10, c3: 10, c4: 4 });
+    for (let seed = 0; seed < 50; seed++) {
+      const result = sequenceDeck(deck, { minGap: 2, random: createSeededRandom(`tied-${seed}`) });
+      expect(countGapBreaks(result.questions, 2)).toBe(0);
+    }
+  });
+
+  it('draws categories in proportion to their weights', () => {
+    const deck = makeDeck({ deep: 60, party: 60, spicy: 60 });
+    const weights = { deep: 0.5, party: 0.3, spicy: 0.2 };
+    const drawn = { deep: 0, party: 0, spicy: 0 };
+    const seeds = 300;
+    const head = 30;
+
+    for (let seed = 0; seed < seeds; seed++) {
+      const result = sequenceDeck(deck, { minGap: 0, weights, random: createSeededRandom(`weights-${seed}`) });
+      result.questions.slice(0, head).forEach(question => drawn[question.category as keyof typeof drawn]++);
+    }
+
+    for (const [category, weight] of Object.entries(weights)) {
+      expect(drawn[category as keyof typeof drawn] / (seeds * head)).toBeCloseTo(weight, 1);
+    }
+  });
+
+  it('still uses every question when the gap cannot be kept', () => {
+    const single = sequenceDeck(makeDeck({ deep: 5 }), { minGap: 2, random: createSeededRandom('single') });
+    expect(single.questions).toHaveLength(5);
+    expect(single.gapViolations).toBe(4);
+
+    const deck = makeDeck({ deep: 8, party: 2 });
+    const result = sequenceDeck(deck, { minGap: 1, random: createSeededRandom('lopsided') });
+    expect(new Set(result.questions.map(question => question.id))).toEqual(new Set(deck.map(question => question.id)));
+    // Reported breaks are the real ones; 2 others split 8 deep questions into at most 3 runs
+    expect(result.gapViolations).toBe(countGapBreaks(result.questions, 1));
+    expect(result.gapViolations).toBeGreaterThanOrEqual(5);
+  });
+});
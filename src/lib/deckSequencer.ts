@@ -0,0 +1,225 @@
+// Orders a deck so questions of the same category are spaced out, optionally
+// favouring some categories over others. Replaces the old one-slot swap loop,
+// which left runs in place whenever it found no swap candidate.
+import type { Question } from '@/lib/questions';
+import { normalizeCategory } from '@/lib/categories';
+import { createSeededRandom, shuffle } from '@/lib/shuffle';
+
+export interface SequenceOptions {
+  /** Minimum number of other questions between two of the same category */
+  minGap?: number;
+  /**
+   * Share of the deck per category, e.g. `{ deep: 0.4, party: 0.2 }`.
+   * Categories without a weight split the rest evenly. Without any weights
+   * each category is drawn in proportion to its remaining questions, which
+   * behaves like a plain shuffle.
+   */
+  weights?: Record<string, number>;
+  random?: () => number;
+}
+
+export interface SequenceResult {
+  questions: Question[];
+  /** Positions where the gap could not be kept (too few categories selected) */
+  gapViolations: number;
+}
+
+export const DEFAULT_MIN_GAP = 1;
+
+interface CategoryPool {
+  category: string;
+  questions: Question[];
+  weight: number | null;
+  lastPosition: number;
+  /** minGap, or less if the category has too many questions to keep it */
+  gap: number;
+}
+
+/**
+ * Resolves weights to shares: listed categories keep theirs, the remainder
+ * is split between the unlisted ones (0 if the listed ones already add up to 1)
+ */
+function resolveWeights(pools: CategoryPool[], weights: Record<string, number>) {
+  const listed = pools.filter(pool => pool.category in weights);
+  const listedTotal = listed.reduce((sum, pool) => sum + Math.max(0, weights[pool.category]), 0);
+  const unlisted = pools.length - listed.length;
+  const remainder = unlisted > 0 ? Math.max(0, 1 - listedTotal) / unlisted : 0;
+
+  pools.forEach(pool => {
+    pool.weight = pool.category in weights ? Math.max(0, weights[pool.category]) : remainder;
+  });
+}
+
+function pickWeighted(pools: CategoryPool[], random: () => number): CategoryPool {
+  // Without weights draw in proportion to what's left, like a plain shuffle
+  const weightOf = (pool: CategoryPool) => pool.weight ?? pool.questions.length;
+  const total = pools.reduce((sum, pool) => sum + weightOf(pool), 0);
+  // Only zero-weight categories left: take them in deck-size order
+  if (total <= 0) return pools.reduce((a, b) => (b.questions.length > a.questions.length ? b : a));
+
+  let target = random() * total;
+  for (const pool of pools) {
+    target -= weightOf(pool);
+    if (target < 0) return pool;
+  }
+  return pools[pools.length - 1];
+}
+
+/** Most questions left, then used longest ago */
+function pickMostRemaining(pools: CategoryPool[]): CategoryPool {
+  return pools.reduce((a, b) =>
+    b.questions.length > a.questions.length || (b.questions.length === a.questions.length && b.lastPosition < a.lastPosition) ? b : a);
+}
+
+/**
+ * Whether every position after `position` can still keep its gap once
+ * `chosen` takes it. Each category with `count` questions left needs
+ * (count - 1) * (gap + 1) slots after its next one; the cheap slack check
+ * settles most positions, the rest are played out with the
+ * most-remaining-first greedy, which keeps the gap whenever that is possible.
+ */
+function canFinish(pools: CategoryPool[], chosen: CategoryPool, position: number, length: number): boolean {
+  const state = pools
+    .map(pool => ({
+      count: pool.questions.length - (pool === chosen ? 1 : 0),
+      last: pool === chosen ? position : pool.lastPosition,
+      gap: pool.gap,
+    }))
+    .filter(entry => entry.count > 0);
+  const remaining = length - position - 1;
+
+  // Slack: every category could take every (gap + 1)th slot after its
+  // cooldown, and the others can fill all slots in between
+  const lastSlot = length - 1;
+  const fits = state.every(entry => {
+    const first = Math.max(position + 1, entry.last + entry.gap + 1);
+    return first + (entry.count - 1) * (entry.gap + 1) <= lastSlot;
+  });
+  if (!fits) return false;
+  const widestGap = Math.max(0, ...state.map(entry => entry.gap));
+  const mostLeft = Math.max(0, ...state.map(entry => entry.count));
+  // More than one full round of slack for every category: nothing can collide
+  if ((mostLeft - 1) * (widestGap + 1) + state.length * (widestGap + 1) <= remaining) return true;
+
+  for (let slot = position + 1; slot <= lastSlot; slot++) {
+    let next: (typeof state)[number] | undefined;
+    for (const entry of state) {
+      if (entry.count === 0 || slot - entry.last <= entry.gap) continue;
+      if (!next || entry.count > next.count || (entry.count === next.count && entry.last < next.last)) next = entry;
+    }
+    if (!next) return false;
+    next.count--;
+    next.last = slot;
+  }
+  return true;
+}
+
+/**
+ * Sequences `questions` so at least `minGap` other questions sit between two
+ * of the same category. When the selection can't satisfy that (e.g. one
+ * category left), the gap is relaxed for as few positions as possible
+ * instead of failing; those positions are counted in `gapViolations`.
+ */
+export function sequenceDeck(questions: Question[], options: SequenceOptions = {}): SequenceResult {
+  const { minGap = DEFAULT_MIN_GAP, weights, random = Math.random } = options;
+
+  const byCategory = new Map<string, Question[]>();
+  questions.forEach(question => {
+    byCategory.set(question.category, [...(byCategory.get(question.category) ?? []), question]);
+  });
+
+  // Shuffle within each category; the sequencer only decides the category order
+  const pools: CategoryPool[] = Array.from(byCategory, ([category, items]) => {
+    // Relax the gap for categories that dominate the selection so their
+    // runs are spread over the deck instead of piling up at the end
+    let gap = minGap;
+    while (gap > 0 && (items.length - 1) * (gap + 1) >= questions.length) gap--;
+    return {
+      category,
+      questions: shuffle(items, random),
+      weight: null,
+      lastPosition: Number.NEGATIVE_INFINITY,
+      gap,
+    };
+  });
+  if (weights && Object.keys(weights).length > 0) {
+    resolveWeights(pools, weights);
+  }
+
+  const sequence: Question[] = [];
+  let gapViolations = 0;
+
+  while (sequence.length < questions.length) {
+    const position = sequence.length;
+    const open = pools.filter(pool => pool.questions.length > 0);
+    const eligible = open.filter(pool => position - pool.lastPosition > pool.gap);
+
+    let pool: CategoryPool | undefined;
+    if (eligible.length === 0) {
+      // Constraint can't be met: take the category used longest ago
+      pool = open.reduce((a, b) => (b.lastPosition < a.lastPosition ? b : a));
+    } else {
+      // Draw by weight, but only categories that leave the rest of the deck
+      // placeable; usually the first draw already is
+      const candidates = [...eligible];
+      while (!pool && candidates.length > 0) {
+        const candidate = pickWeighted(candidates, random);
+        if (canFinish(pools, candidate, position, questions.length)) pool = candidate;
+        else candidates.splice(candidates.indexOf(candidate), 1);
+      }
+      // The gap will break somewhere anyway: keep it as long as possible
+      pool ??= pickMostRemaining(eligible);
+    }
+
+    if (position - pool.lastPosition <= minGap) gapViolations++;
+    sequence.push(pool.questions.shift()!);
+    pool.lastPosition = position;
+  }
+
+  return { questions: sequence, gapViolations };
+}
+
+/**
+ * Seeded sequencing: the same seed, deck and options always give the same
+ * order. The deck is put into ID order first so the result doesn't depend on
+ * the order the source delivered it in.
+ */
+export function shuffleDeck(questions: Question[], seed: string, options: Omit<SequenceOptions, 'random'> = {}): SequenceResult {
+  const canonical = [...questions].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  return sequenceDeck(canonical, { ...options, random: createSeededRandom(seed) });
+}
+
+/**
+ * Parses `VITE_DECK_WEIGHTS`, e.g. "deep:0.4, party:20%"
+ */
+export function parseCategoryWeights(value: string | undefined): Record<string, number> {
+  const weights: Record<string, number> = {};
+
+  for (const entry of (value ?? '').split(',')) {
+    const [rawCategory, rawWeight] = entry.split(':').map(part => part?.trim());
+    if (!rawCategory || !rawWeight) continue;
+
+    const isPercent = rawWeight.endsWith('%');
+    const weight = parseFloat(rawWeight) / (isPercent ? 100 : 1);
+    if (!Number.isFinite(weight) || weight < 0) {
+      console.warn(`Ignoring invalid weight "${entry.trim()}" in VITE_DECK_WEIGHTS`);
+      continue;
+    }
+    weights[normalizeCategory(rawCategory) ?? rawCategory] = weight;
+  }
+
+  return weights;
+}
+
+/**
+ * Sequencing config from Vite env:
+ * - `VITE_DECK_MIN_GAP`: minimum questions between two of the same category
+ * - `VITE_DECK_WEIGHTS`: category shares, e.g. "deep:0.4,party:0.2"
+ */
+export function getSequenceOptionsFromEnv(env: ImportMetaEnv = import.meta.env): SequenceOptions {
+  const minGap = parseInt(env.VITE_DECK_MIN_GAP ?? '', 10);
+  return {
+    minGap: Number.isInteger(minGap) && minGap >= 0 ? minGap : DEFAULT_MIN_GAP,
+    weights: parseCategoryWeights(env.VITE_DECK_WEIGHTS),
+  };
+}
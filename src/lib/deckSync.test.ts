@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { diffDeck, type StoredQuestion } from '@/lib/deckSync';
+import { parseQuestionsCsv } from '@/lib/questions';
+import { hashQuestionId } from '@/lib/questionIds';
+
+const csv = (...rows: string[]) => ['question,category,question_en', ...rows].join('\n');
+
+describe('diffDeck', () => {
+  it('leaves the English text alone when the sheet has none', () => {
+    const parsed = parseQuestionsCsv(csv('"Was machst du am liebsten?",deep,'));
+    const id = parsed.questions[0].id;
+    const stored: StoredQuestion[] = [
+      { id, category: 'deep', status: 'live', de: 'Was machst du am liebsten?', en: null },
+    ];
+
+    const diff = diffDeck(parsed, stored, ['deep']);
+    expect(diff.changedText).toEqual([]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('adds untranslated questions without an English text', () => {
+    const parsed = parseQuestionsCsv(csv('"Was machst du am liebsten?",deep,'));
+    const diff = diffDeck(parsed, [], ['deep']);
+    expect(diff.added).toEqual([expect.objectContaining({ de: 'Was machst du am liebsten?', en: null })]);
+  });
+
+  it('keeps the stored ID for edited text and records an alias for the new hash', () => {
+    const storedId = hashQuestionId('Was machts du am liebsten?');
+    const parsed = parseQuestionsCsv(csv('"Was machst du am liebsten?",deep,'));
+    const stored: StoredQuestion[] = [
+      { id: storedId, category: 'deep', status: 'live', de: 'Was machts du am liebsten?', en: null },
+    ];
+
+    const diff = diffDeck(parsed, stored, ['deep']);
+    expect(diff.added).toEqual([]);
+    expect(diff.changedText).toEqual([
+      { id: storedId, locale: 'de', before: 'Was machts du am liebsten?', after: 'Was machst du am liebsten?' },
+    ]);
+    expect(diff.aliases).toEqual([{ from: hashQuestionId('Was machst du am liebsten?'), to: storedId }]);
+  });
+});
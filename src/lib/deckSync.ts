@@ -0,0 +1,208 @@
+// Diff between the authoring sheet and the questions stored in Supabase, used
+// by scripts/sync-sheet.ts. Stored IDs are kept wherever a sheet row can be
+// matched to a stored question, so fixing a typo in the sheet edits the
+// question instead of retiring it and adding a new one.
+import { normalizeCategory } from '@/lib/categories';
+import { hashQuestionId, resolveQuestionId } from '@/lib/questionIds';
+import { normalizeSearchText } from '@/lib/questionSearch';
+import type { ParsedQuestions, Question } from '@/lib/questions';
+
+/** Edited text at least this similar to the stored text counts as the same question */
+export const TEXT_MATCH_THRESHOLD = 0.8;
+
+export interface StoredQuestion {
+  id: string;
+  category: string;
+  status: 'draft' | 'live' | 'retired';
+  de: string | null;
+  en: string | null;
+}
+
+export interface TextChange {
+  id: string;
+  locale: 'de' | 'en';
+  before: string | null;
+  after: string;
+}
+
+export interface CategoryMove {
+  id: string;
+  question: string;
+  from: string;
+  to: string;
+}
+
+export interface DeckDiff {
+  added: { id: string; category: string; de: string; en: string | null }[];
+  changedText: TextChange[];
+  movedCategory: CategoryMove[];
+  /** Live questions missing from the sheet; they are retired, not deleted */
+  removed: StoredQuestion[];
+  /** Retired or draft questions that are back in the sheet */
+  restored: StoredQuestion[];
+  /** Category slugs the sheet uses that are not in the categories table yet */
+  newCategories: string[];
+  /**
+   * Sheet IDs of matched rows that differ from the stored ID (edited text);
+   * written to the alias table so every source serves the stored ID
+   */
+  aliases: { from: string; to: string }[];
+  /** New rows that could not get their sheet ID; they need an `id` column */
+  renamed: { id: string; sheetId: string; question: string }[];
+  unchanged: number;
+}
+
+/**
+ * Registry slug, or the raw value as a slug ("Late Night" → "late-night"),
+ * the same way the normalisation migration converted old categories
+ */
+export function toCategorySlug(category: string): string {
+  return normalizeCategory(category)
+    ?? category.normalize('NFC').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/** 0 (nothing in common) to 1 (identical after normalisation), by edit distance */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeSearchText(a);
+  const right = normalizeSearchText(b);
+  if (left === right) return 1;
+  const longest = Math.max(left.length, right.length);
+  return longest === 0 ? 1 : 1 - levenshtein(left, right) / longest;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Pairs sheet rows with stored questions, most reliable evidence first: the
+ * sheet's ID (through the alias table), identical German text, then similar
+ * text, preferring the same category.
+ */
+function matchQuestions(sheet: Question[], stored: StoredQuestion[]): Map<Question, StoredQuestion> {
+  const matches = new Map<Question, StoredQuestion>();
+  const claimed = new Set<string>();
+  const byId = new Map(stored.map(entry => [entry.id, entry]));
+  const byText = new Map(stored.filter(entry => entry.de).map(entry => [normalizeSearchText(entry.de!), entry]));
+
+  const claim = (question: Question, entry: StoredQuestion | undefined) => {
+    if (!entry || claimed.has(entry.id) || matches.has(question)) return;
+    matches.set(question, entry);
+    claimed.add(entry.id);
+  };
+
+  sheet.forEach(question => claim(question, byId.get(resolveQuestionId(question.id))));
+  sheet.forEach(question => claim(question, byText.get(normalizeSearchText(question.question))));
+
+  const candidates = sheet
+    .filter(question => !matches.has(question))
+    .flatMap(question => stored
+      .filter(entry => !claimed.has(entry.id) && entry.de)
+      .map(entry => ({
+        question,
+        entry,
+        score: textSimilarity(question.question, entry.de!),
+        sameCategory: toCategorySlug(question.category) === entry.category,
+      })))
+    .filter(candidate => candidate.score >= TEXT_MATCH_THRESHOLD)
+    .sort((a, b) => Number(b.sameCategory) - Number(a.sameCategory) || b.score - a.score);
+  candidates.forEach(({ question, entry }) => claim(question, entry));
+
+  return matches;
+}
+
+/**
+ * ID for a new row whose own ID already belongs to a stored question that
+ * matched another row. Derived from text and category rather than row order,
+ * so every run picks the same one.
+ */
+function collisionId(question: Question, category: string, takenIds: Set<string>): string {
+  const base = hashQuestionId(`${category} ${question.question}`);
+  let id = base;
+  for (let suffix = 2; takenIds.has(id); suffix++) id = `${base}-${suffix}`;
+  return id;
+}
+
+/**
+ * What has to change in the database so it serves exactly the sheet. Sheet
+ * rows without English text leave a stored translation alone.
+ */
+export function diffDeck(parsed: ParsedQuestions, stored: StoredQuestion[], knownCategories: string[]): DeckDiff {
+  const sheet = parsed.questions;
+  // The parser fills in the German text for display; only a real
+  // question_en cell is a translation
+  const untranslated = new Set(parsed.report.missingEnglish.map(entry => entry.id));
+  const diff: DeckDiff = {
+    added: [],
+    changedText: [],
+    movedCategory: [],
+    removed: [],
+    restored: [],
+    newCategories: [],
+    aliases: [],
+    renamed: [],
+    unchanged: 0,
+  };
+  const matches = matchQuestions(sheet, stored);
+  const matchedIds = new Set([...matches.values()].map(entry => entry.id));
+  const takenIds = new Set(stored.map(entry => entry.id));
+  const sheetCategories = new Set<string>();
+
+  for (const question of sheet) {
+    const category = toCategorySlug(question.category);
+    const en = untranslated.has(question.id) ? null : question.questionEn || null;
+    sheetCategories.add(category);
+
+    const entry = matches.get(question);
+    if (!entry) {
+      const id = takenIds.has(question.id) ? collisionId(question, category, takenIds) : question.id;
+      takenIds.add(id);
+      diff.added.push({ id, category, de: question.question, en });
+      if (id !== question.id) diff.renamed.push({ id, sheetId: question.id, question: question.question });
+      continue;
+    }
+
+    if (question.id !== entry.id) diff.aliases.push({ from: question.id, to: entry.id });
+
+    let changed = false;
+    if (entry.de !== question.question) {
+      diff.changedText.push({ id: entry.id, locale: 'de', before: entry.de, after: question.question });
+      changed = true;
+    }
+    if (en && entry.en !== en) {
+      diff.changedText.push({ id: entry.id, locale: 'en', before: entry.en, after: en });
+      changed = true;
+    }
+    if (entry.category !== category) {
+      diff.movedCategory.push({ id: entry.id, question: question.question, from: entry.category, to: category });
+      changed = true;
+    }
+    if (entry.status !== 'live') {
+      diff.restored.push(entry);
+      changed = true;
+    }
+    if (!changed) diff.unchanged++;
+  }
+
+  diff.removed = stored.filter(entry => entry.status === 'live' && !matchedIds.has(entry.id));
+  diff.newCategories = [...sheetCategories].filter(slug => !knownCategories.includes(slug));
+  return diff;
+}
+
+/** Questions, categories and aliases the sync would write to */
+export function countChanges(diff: DeckDiff): number {
+  const touched = new Set([
+    ...[...diff.changedText, ...diff.movedCategory].map(change => change.id),
+    ...[...diff.removed, ...diff.restored].map(entry => entry.id),
+  ]);
+  return diff.added.length + touched.size + diff.newCategories.length + diff.aliases.length;
+}
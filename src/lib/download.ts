@@ -0,0 +1,9 @@
+/** Saves generated content as a file via a temporary link */
+export function downloadFile(filename: string, content: BlobPart, type = 'application/json') {
+  const url = URL.createObjectURL(content instanceof Blob ? content : new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
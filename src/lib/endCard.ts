@@ -0,0 +1,17 @@
+// The end-of-deck card travels through the carousel as a pseudo question, so
+// it gets the same swipe, slide and colour handling as a real card. QuizCard
+// renders its content differently (see EndCard.tsx).
+import type { Question } from '@/lib/questions';
+
+export const END_CARD_ID = '__end__';
+
+export const endCard: Question = {
+  id: END_CARD_ID,
+  question: '',
+  questionEn: '',
+  category: 'end',
+};
+
+export function isEndCard(question: Question | null | undefined): boolean {
+  return question?.id === END_CARD_ID;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { resolveFavourites } from '@/lib/favourites';
+import { hashQuestionId } from '@/lib/questionIds';
+import type { Question } from '@/lib/questions';
+
+const question = (text: string, category = 'deep'): Question => ({
+  id: hashQuestionId(text),
+  question: text,
+  questionEn: text,
+  category,
+});
+
+describe('resolveFavourites', () => {
+  const deck = [question('Was machst du am liebsten?'), question('Wovor hast du Angst?'), question('Wen rufst du zuerst an?')];
+
+  it('matches by ID and by the hash of the question text', () => {
+    expect(resolveFavourites([deck[1].id, '  was machst du  am liebsten? '], deck)).toEqual([deck[1].id, deck[0].id]);
+  });
+
+  it('does not read numbers as deck positions', () => {
+    expect(resolveFavourites(['0', '2', 'q-unknown'], deck)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+// Export and import of favourites, either as a link (`?favs=id,id`) or as a
+// JSON file. Entries are matched by stable ID, with the hash of the question
+// text as a fallback for files made before an ID change.
+import type { Question } from '@/lib/questions';
+import { hashQuestionId, resolveQuestionId } from '@/lib/questionIds';
+
+export const FAVOURITES_PARAM = 'favs';
+
+interface FavouritesFile {
+  app: 'friends-app';
+  type: 'favourites';
+  exportedAt: string;
+  favourites: { id: string; question: string; category: string }[];
+}
+
+export function buildFavouritesLink(ids: Iterable<string>): string {
+  const url = new URL(window.location.origin + window.location.pathname);
+  url.searchParams.set(FAVOURITES_PARAM, [...ids].join(','));
+  return url.toString();
+}
+
+export function readFavouritesFromUrl(): string[] {
+  const value = new URLSearchParams(window.location.search).get(FAVOURITES_PARAM);
+  return value ? value.split(',').map(id => id.trim()).filter(Boolean) : [];
+}
+
+export function removeFavouritesFromUrl() {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(FAVOURITES_PARAM);
+  window.history.replaceState(window.history.state, '', url);
+}
+
+/**
+ * Maps IDs (or question texts) to IDs of questions in the current deck;
+ * entries that match nothing are dropped. Unlike share links, numbers are
+ * never read as deck positions, which would favourite unrelated questions.
+ */
+export function resolveFavourites(refs: string[], questions: Question[]): string[] {
+  const deckIds = new Set(questions.map(q => q.id));
+  const ids = new Set<string>();
+  refs.forEach(ref => {
+    const value = ref.trim();
+    const id = [resolveQuestionId(value), resolveQuestionId(hashQuestionId(value))].find(candidate => deckIds.has(candidate));
+    if (id) ids.add(id);
+  });
+  return [...ids];
+}
+
+export function favouritesToJson(ids: Set<string>, questions: Question[]): string {
+  const file: FavouritesFile = {
+    app: 'friends-app',
+    type: 'favourites',
+    exportedAt: new Date().toISOString(),
+    favourites: questions
+      .filter(q => ids.has(q.id))
+      .map(({ id, question, category }) => ({ id, question, category })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported file, or a plain array of IDs. Throws if the file is not
+ * a favourites export.
+ */
+export function parseFavouritesJson(text: string): string[] {
+  const data: unknown = JSON.parse(text);
+  const entries = Array.isArray(data) ? data : (data as Partial<FavouritesFile>)?.favourites;
+  if (!Array.isArray(entries)) {
+    throw new Error('Not a favourites export');
+  }
+
+  return entries.flatMap(entry => {
+    if (typeof entry === 'string') return [entry];
+    if (entry && typeof entry === 'object') {
+      const { id, question } = entry as { id?: unknown; question?: unknown };
+      // ID first, text as fallback
+      return [id, question].filter((value): value is string => typeof value === 'string' && value.length > 0);
+    }
+    return [];
+  });
+}
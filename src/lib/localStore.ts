@@ -0,0 +1,62 @@
+// Small per-device state in localStorage: sets of question IDs (seen history
+// and the like), on/off preferences and small JSON values. IDs are passed
+// through the alias table on read, so entries survive question ID migrations.
+import { resolveQuestionId } from '@/lib/questionIds';
+
+export const STORAGE_PREFIX = 'friends-app:';
+
+export function readStoredIds(key: string): Set<string> {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    const ids: unknown = raw ? JSON.parse(raw) : [];
+    return new Set(Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string').map(resolveQuestionId) : []);
+  } catch (error) {
+    console.warn(`Could not read stored "${key}":`, error);
+    return new Set();
+  }
+}
+
+export function writeStoredIds(key: string, ids: Set<string>) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify([...ids]));
+  } catch (error) {
+    // Private mode or quota exceeded - keep working with the in-memory set
+    console.warn(`Could not store "${key}":`, error);
+  }
+}
+
+export function readStoredFlag(key: string, fallback = false): boolean {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : raw === 'true';
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeStoredFlag(key: string, value: boolean) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, String(value));
+  } catch (error) {
+    console.warn(`Could not store "${key}":`, error);
+  }
+}
+
+/** Parsed JSON, or undefined when missing or unreadable; callers validate the shape */
+export function readStoredJson(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? undefined : JSON.parse(raw);
+  } catch (error) {
+    console.warn(`Could not read stored "${key}":`, error);
+    return undefined;
+  }
+}
+
+export function writeStoredJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not store "${key}":`, error);
+  }
+}
@@ -0,0 +1,194 @@
+// Data access for the /admin console. Only signed-in admins (auth users with
+// `app_metadata.role = 'admin'`) get past the row level security policies;
+// everyone else sees empty lists and failing updates.
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { hashQuestionId } from '@/lib/questionIds';
+import { normalizeCategory } from '@/lib/categories';
+import type { Question } from '@/lib/questions';
+import type { ReportReason } from '@/lib/questionReports';
+
+export type SubmissionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface Submission {
+  id: string;
+  question: string;
+  category: string;
+  language: 'de' | 'en';
+  submitterName: string | null;
+  status: SubmissionStatus;
+  createdAt: string;
+}
+
+export type QuestionStatus = Database['public']['Enums']['question_status'];
+
+/** A row of `questions` with its German and English text */
+export interface LiveQuestion {
+  id: string;
+  question: string;
+  /** Locale `question` is written in; 'en' for questions without German text */
+  locale: 'de' | 'en';
+  questionEn: string | null;
+  category: string;
+  status: QuestionStatus;
+}
+
+export interface QuestionDraft {
+  question: string;
+  category: string;
+  /** Only edited for live German questions; empty removes the translation */
+  questionEn?: string;
+}
+
+/** Reports for one question, from the question_report_counts view */
+export interface ReportCount {
+  questionId: string;
+  /** Text as shown on the card when it was last reported */
+  questionText: string;
+  total: number;
+  byReason: Record<ReportReason, number>;
+  lastReportedAt: string;
+}
+
+export function isAdminUser(user: User | null | undefined): boolean {
+  return user?.app_metadata?.role === 'admin';
+}
+
+export async function signInAdmin(email: string, password: string) {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw new Error(`Sign-in failed: ${error.message}`);
+}
+
+export async function signOutAdmin() {
+  await supabase.auth.signOut();
+}
+
+/**
+ * The question as the swipe view would build it, for previews
+ */
+export function draftToQuestion(draft: QuestionDraft, language: 'de' | 'en' = 'de'): Question {
+  return {
+    id: hashQuestionId(draft.question),
+    question: draft.question,
+    questionEn: language === 'en' ? draft.question : draft.questionEn ?? '',
+    category: normalizeCategory(draft.category) ?? draft.category,
+  };
+}
+
+export async function listSubmissions(status: SubmissionStatus = 'pending'): Promise<Submission[]> {
+  const { data, error } = await supabase
+    .from('question_submissions')
+    .select('id, question, category, language, submitter_name, status, created_at')
+    .eq('status', status)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to load submissions: ${error.message}`);
+  return (data ?? []).map(row => ({
+    id: row.id,
+    question: row.question,
+    category: row.category,
+    language: row.language === 'en' ? 'en' : 'de',
+    submitterName: row.submitter_name,
+    status: row.status as SubmissionStatus,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Publishes a submission, with the admin's edits, as a live question. The
+ * ID is derived from the text like for sheet questions and kept from then on.
+ * The approve_submission function writes everything in one transaction.
+ */
+export async function approveSubmission(submission: Submission, draft: QuestionDraft) {
+  const { error } = await supabase.rpc('approve_submission', {
+    submission_id: submission.id,
+    question_text: draft.question,
+    question_category: draft.category,
+  });
+  if (error) throw new Error(`Failed to publish question: ${error.message}`);
+}
+
+export async function rejectSubmission(submission: Submission) {
+  const { error } = await supabase
+    .from('question_submissions')
+    .update({ status: 'rejected' })
+    .eq('id', submission.id);
+  if (error) throw new Error(`Failed to update submission: ${error.message}`);
+}
+
+export async function listLiveQuestions(): Promise<LiveQuestion[]> {
+  const { data, error } = await supabase
+    .from('questions')
+    .select('id, category, status, question_translations (locale, text)')
+    .neq('status', 'draft');
+
+  if (error) throw new Error(`Failed to load questions: ${error.message}`);
+  return (data ?? []).map(row => {
+    const text = (locale: string) => row.question_translations.find(t => t.locale === locale)?.text ?? null;
+    const locale = text('de') === null && text('en') !== null ? 'en' : 'de';
+    return {
+      id: row.id,
+      question: text(locale) ?? '',
+      locale,
+      questionEn: text('en'),
+      category: row.category,
+      status: row.status,
+    };
+  });
+}
+
+/**
+ * Saves an edit of a live question. Only the locale the text was shown in is
+ * written, plus the English text for German questions; the
+ * update_live_question function does it in one transaction.
+ */
+export async function updateLiveQuestion(original: LiveQuestion, draft: QuestionDraft) {
+  const { error } = await supabase.rpc('update_live_question', {
+    question_id: original.id,
+    question_category: draft.category,
+    question_locale: original.locale,
+    question_text: draft.question,
+    question_en: draft.questionEn?.trim() ?? null,
+  });
+  if (error) throw new Error(`Failed to update question: ${error.message}`);
+}
+
+/** Retired questions stay in the database but are no longer served */
+export async function setQuestionRetired(original: LiveQuestion, retired: boolean) {
+  const { error } = await supabase
+    .from('questions')
+    .update({ status: retired ? 'retired' : 'live' })
+    .eq('id', original.id);
+  if (error) throw new Error(`Failed to update question: ${error.message}`);
+}
+
+export async function listReportCounts(): Promise<ReportCount[]> {
+  const { data, error } = await supabase
+    .from('question_report_counts')
+    .select('question_id, question_text, total, offensive, wrong_translation, duplicate, typo, last_reported_at')
+    .order('total', { ascending: false });
+
+  if (error) throw new Error(`Failed to load reports: ${error.message}`);
+  return (data ?? []).map(row => ({
+    questionId: row.question_id ?? '',
+    questionText: row.question_text ?? '',
+    total: row.total ?? 0,
+    byReason: {
+      offensive: row.offensive ?? 0,
+      wrong_translation: row.wrong_translation ?? 0,
+      duplicate: row.duplicate ?? 0,
+      typo: row.typo ?? 0,
+    },
+    lastReportedAt: row.last_reported_at ?? '',
+  }));
+}
+
+/** Clears the reports of a question once it has been dealt with */
+export async function dismissReports(questionId: string) {
+  const { error } = await supabase
+    .from('question_reports')
+    .delete()
+    .eq('question_id', questionId);
+  if (error) throw new Error(`Failed to clear reports: ${error.message}`);
+}
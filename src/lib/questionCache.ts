@@ -0,0 +1,120 @@
+// Offline copy of the last successfully loaded deck in IndexedDB. The app
+// renders from it immediately on launch and refreshes in the background.
+import type { Question } from '@/lib/questions';
+import type { DeckReport } from '@/lib/questionSchema';
+import type { QuestionSourceKind } from '@/lib/questionSources';
+import { fnv1a } from '@/lib/questionIds';
+import type { CardThemeMap } from '@/lib/cardTheme';
+
+const DB_NAME = 'friends-app';
+const DB_VERSION = 1;
+const STORE_NAME = 'decks';
+const DECK_KEY = 'current';
+
+export interface CachedDeck {
+  /** Source ETag when available, otherwise a hash of the deck contents */
+  version: string;
+  source: QuestionSourceKind;
+  questions: Question[];
+  report: DeckReport;
+  themes?: CardThemeMap;
+  savedAt: number;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request in its own transaction and closes the connection
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Returns the cached deck, or null if there is none (or storage is unavailable)
+ */
+export async function readCachedDeck(): Promise<CachedDeck | null> {
+  try {
+    const deck = await withStore<CachedDeck | undefined>('readonly', store => store.get(DECK_KEY));
+    return deck && deck.questions?.length > 0 ? deck : null;
+  } catch (error) {
+    console.warn('Question cache unavailable:', error);
+    return null;
+  }
+}
+
+export async function writeCachedDeck(deck: CachedDeck): Promise<void> {
+  try {
+    await withStore('readwrite', store => store.put(deck, DECK_KEY));
+  } catch (error) {
+    console.warn('Failed to update question cache:', error);
+  }
+}
+
+/**
+ * Content hash used as version when the source provides no ETag
+ */
+export function computeDeckVersion(questions: Question[]): string {
+  const content = questions
+    .map(q => `${q.id}\u0000${q.question}\u0000${q.questionEn}\u0000${q.category}`)
+    .sort()
+    .join('\u0001');
+  return `hash-${fnv1a(content)}-${questions.length}`;
+}
+
+/**
+ * Applies a refreshed deck to the current play order without reshuffling:
+ * questions keep their position (with updated text), removed ones drop out
+ * and added ones are mixed in at random positions after `keepBeforeIndex`.
+ */
+export function mergeDeckOrder(
+  current: Question[],
+  fresh: Question[],
+  keepBeforeIndex: number,
+  random: () => number = Math.random
+): Question[] {
+  const freshById = new Map(fresh.map(q => [q.id, q]));
+  const currentIds = new Set(current.map(q => q.id));
+
+  const merged = current
+    .filter(q => freshById.has(q.id))
+    .map(q => freshById.get(q.id)!);
+  const added = fresh.filter(q => !currentIds.has(q.id));
+
+  const minIndex = Math.min(Math.max(keepBeforeIndex + 1, 0), merged.length);
+  added.forEach(question => {
+    const index = minIndex + Math.floor(random() * (merged.length - minIndex + 1));
+    merged.splice(index, 0, question);
+  });
+
+  return merged;
+}
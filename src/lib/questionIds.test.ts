@@ -0,0 +1,43 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { PGlite } from '@electric-sql/pglite';
+import { describe, expect, it } from 'vitest';
+import { hashQuestionId } from '@/lib/questionIds';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../supabase/migrations');
+
+/** The latest definition of public.question_hash_id across the migrations */
+function readHashFunction(): string {
+  const definitions = readdirSync(MIGRATIONS_DIR)
+    .sort()
+    .flatMap(file => readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8')
+      .match(/CREATE OR REPLACE FUNCTION public\.question_hash_id[\s\S]*?\$\$;/g) ?? []);
+  return definitions[definitions.length - 1];
+}
+
+const fixtures = [
+  'Was ist deine Lieblings-Porno-Kategorie?',
+  '  Wie geht\'s   Familie?  ',
+  '\nWelche Fantasie würdest du gerne mal ausleben?\t',
+  '\t\tÄrgerst du dich über ÖL-Preise?\r\n',
+  'Non\u00a0breaking\u3000spaces\ufeff',
+  'Multi\nline\n\nquestion',
+  'Cafe\u0301 cre\u0300me', // decomposed accents only match after NFC
+];
+
+describe('hashQuestionId', () => {
+  it('matches public.question_hash_id in the database', async () => {
+    const db = new PGlite();
+    await db.exec(readHashFunction());
+
+    for (const text of fixtures) {
+      const { rows } = await db.query<{ id: string }>('SELECT public.question_hash_id($1) AS id', [text]);
+      expect(rows[0].id, JSON.stringify(text)).toBe(hashQuestionId(text));
+    }
+    await db.close();
+  });
+
+  it('ignores surrounding whitespace, whitespace runs and case', () => {
+    expect(hashQuestionId('\n Wie  geht\'s?\t')).toBe(hashQuestionId('wie geht\'s?'));
+  });
+});
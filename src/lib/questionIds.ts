@@ -0,0 +1,80 @@
+// Stable question IDs used for share links and anything persisted per question.
+// Questions without an explicit `id` column get a hash of their German text.
+// When an editor fixes a typo the hash changes, so the alias table in
+// src/data/questionIdAliases.ts maps it to the ID the question keeps, which
+// keeps previously shared links and stored favourites working.
+import { questionIdAliases } from '@/data/questionIdAliases';
+
+/**
+ * Normalizes text so whitespace and casing changes don't produce a new ID
+ */
+function normalizeForHash(text: string): string {
+  return text.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * 32-bit FNV-1a hash as a 7 character base36 string
+ */
+export function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(36).padStart(7, '0');
+}
+
+/**
+ * Hash of the normalized question text, e.g. `q-0f3k9a2`
+ */
+export function hashQuestionId(text: string): string {
+  return `q-${fnv1a(normalizeForHash(text))}`;
+}
+
+/**
+ * Follows the alias table to the current ID (guards against alias cycles)
+ */
+export function resolveQuestionId(id: string): string {
+  let current = id;
+  const visited = new Set<string>();
+
+  while (questionIdAliases[current] && !visited.has(current)) {
+    visited.add(current);
+    current = questionIdAliases[current];
+  }
+
+  return current;
+}
+
+/**
+ * Finds a question for a `?q=` link value. Stable IDs are tried first;
+ * raw question text and shuffled indices from older links are the fallback.
+ */
+export function findQuestionIndexForLink<T extends { id: string; question: string; questionEn?: string }>(
+  questions: T[],
+  linkValue: string
+): { index: number; matchedBy: 'id' | 'text' | 'index' | null } {
+  const value = linkValue.trim();
+
+  const resolvedId = resolveQuestionId(value);
+  const byId = questions.findIndex(q => q.id === resolvedId);
+  if (byId >= 0) return { index: byId, matchedBy: 'id' };
+
+  // Legacy: raw German or English question text (edited text still matches
+  // through the alias of its old hash)
+  const textId = resolveQuestionId(hashQuestionId(value));
+  const byText = questions.findIndex(q =>
+    q.id === textId || q.question.trim() === value || q.questionEn?.trim() === value
+  );
+  if (byText >= 0) return { index: byText, matchedBy: 'text' };
+
+  // Legacy: index into the shuffled deck
+  const numeric = parseInt(value, 10);
+  if (/^\d+$/.test(value) && numeric < questions.length) {
+    return { index: numeric, matchedBy: 'index' };
+  }
+
+  return { index: -1, matchedBy: null };
+}
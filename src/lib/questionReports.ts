@@ -0,0 +1,28 @@
+// Reports of offensive or broken questions, sent from the card context menu
+// to the insert-only question_reports table.
+import { Constants, type Database } from '@/integrations/supabase/types';
+
+export type ReportReason = Database['public']['Enums']['report_reason'];
+
+/** In menu order */
+export const REPORT_REASONS: readonly ReportReason[] = Constants.public.Enums.report_reason;
+
+export interface QuestionReport {
+  questionId: string;
+  /** Text as shown on the card */
+  questionText: string;
+  locale: 'de' | 'en';
+  reason: ReportReason;
+}
+
+export async function reportQuestion(report: QuestionReport) {
+  // Loaded lazily like the Supabase question source
+  const { supabase } = await import('@/integrations/supabase/client');
+  const { error } = await supabase.from('question_reports').insert({
+    question_id: report.questionId,
+    question_text: report.questionText,
+    locale: report.locale,
+    reason: report.reason,
+  });
+  if (error) throw new Error(`Could not report question: ${error.message}`);
+}
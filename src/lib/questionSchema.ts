@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+/**
+ * Shape of a single deck row as it comes from any source (CSV, JSON, database)
+ */
+export const questionRowSchema = z.object({
+  id: z.string().trim().optional(),
+  question: z.string({ required_error: 'Missing question' }).trim().min(1, 'Empty question'),
+  category: z.string({ required_error: 'Missing category' }).trim().min(1, 'Empty category'),
+  question_en: z.string().trim().optional(),
+});
+
+export type QuestionRow = z.infer<typeof questionRowSchema>;
+
+export interface RowIssue {
+  line: number;
+  message: string;
+}
+
+/**
+ * Data-quality findings for a loaded deck, shown in the dev diagnostics panel
+ */
+export interface DeckReport {
+  /** Rows that could not be parsed or failed validation */
+  rejected: RowIssue[];
+  /** Categories not in the registry (questions are kept with the raw value) */
+  unknownCategories: { category: string; lines: number[] }[];
+  /** Questions sharing an ID - only the first occurrence is kept */
+  duplicates: { id: string; question: string; lines: number[] }[];
+  /** Questions without an English translation */
+  missingEnglish: { id: string; question: string; line: number }[];
+}
+
+export function createEmptyReport(): DeckReport {
+  return { rejected: [], unknownCategories: [], duplicates: [], missingEnglish: [] };
+}
+
+export function countReportIssues(report: DeckReport): number {
+  return report.rejected.length
+    + report.unknownCategories.length
+    + report.duplicates.length
+    + report.missingEnglish.length;
+}
+
+/**
+ * Turns zod issues into a short message, e.g. "Empty question"
+ */
+export function formatRowError(error: z.ZodError): string {
+  return error.issues.map(issue => issue.message).join('; ');
+}
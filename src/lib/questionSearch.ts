@@ -0,0 +1,90 @@
+// Full-text search over German and English question text for the command
+// palette. Text and query are normalised the same way, so "Mädchen",
+// "maedchen" and "MAEDCHEN" all match, and "strasse" finds "Straße".
+import type { Question } from '@/lib/questions';
+
+const REPLACEMENTS: Record<string, string> = { ä: 'ae', ö: 'oe', ü: 'ue', ß: 'ss' };
+
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[äöüß]/g, char => REPLACEMENTS[char])
+    // Other accents (é, ñ, ...) are dropped
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Scores one query token against normalised text: a whole-word hit beats a
+ * word prefix, which beats a substring; as a fuzzy fallback the token's
+ * letters may appear in order within a single word (typos with missing
+ * letters). 0 means no match.
+ */
+function scoreToken(token: string, text: string, words: string[]): number {
+  if (words.includes(token)) return 4;
+  if (words.some(word => word.startsWith(token))) return 3;
+  if (text.includes(token)) return 2;
+  if (token.length >= 3 && words.some(word => isSubsequence(token, word))) return 1;
+  return 0;
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+  let index = 0;
+  for (const char of haystack) {
+    if (char === needle[index]) index++;
+    if (index === needle.length) return true;
+  }
+  return false;
+}
+
+export interface SearchOptions {
+  /** Only these categories; all when empty */
+  categories?: string[];
+  limit?: number;
+}
+
+interface IndexedQuestion {
+  question: Question;
+  text: string;
+  words: string[];
+}
+
+/** Normalises the deck once so searching while typing stays cheap */
+export function createSearchIndex(questions: Question[]): IndexedQuestion[] {
+  return questions.map(question => {
+    const text = normalizeSearchText(`${question.question} ${question.questionEn}`);
+    return { question, text, words: text.split(' ') };
+  });
+}
+
+/**
+ * Questions matching every word of the query, best matches first. An empty
+ * query returns the (category-filtered) deck in its original order.
+ */
+export function searchQuestions(index: IndexedQuestion[], query: string, options: SearchOptions = {}): Question[] {
+  const { categories = [], limit = 50 } = options;
+  const candidates = categories.length > 0
+    ? index.filter(entry => categories.includes(entry.question.category))
+    : index;
+
+  const tokens = normalizeSearchText(query).split(' ').filter(Boolean);
+  if (tokens.length === 0) return candidates.slice(0, limit).map(entry => entry.question);
+
+  return candidates
+    .map(entry => {
+      let score = 0;
+      for (const token of tokens) {
+        const tokenScore = scoreToken(token, entry.text, entry.words);
+        if (tokenScore === 0) return null;
+        score += tokenScore;
+      }
+      return { question: entry.question, score };
+    })
+    .filter((result): result is { question: Question; score: number } => result !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(result => result.question);
+}
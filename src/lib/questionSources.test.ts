@@ -0,0 +1,50 @@
+import { createClient } from '@supabase/supabase-js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseSource } from '@/lib/questionSources';
+
+const STAND_IN_URL = 'http://localhost:54321';
+
+// PostgREST stand-in: every request the client makes goes through this mock
+const fetchMock = vi.fn<typeof fetch>();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: createClient(STAND_IN_URL, 'anon-key', {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { fetch: (...args: Parameters<typeof fetch>) => fetchMock(...args) },
+  }),
+}));
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+afterEach(() => {
+  fetchMock.mockReset();
+});
+
+describe('createSupabaseSource', () => {
+  it('loads the questions view and maps its rows', async () => {
+    fetchMock.mockResolvedValue(json([
+      { id: 'q-0000001', question: 'Was machst du am liebsten?', question_en: 'What do you like doing most?', category: 'deep' },
+      { id: 'q-0000002', question: 'Wer aus der Runde tanzt am besten?', question_en: null, category: 'Wer aus der Runde' },
+    ]));
+
+    const { questions, report } = await createSupabaseSource().load();
+
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(url.origin).toBe(STAND_IN_URL);
+    expect(decodeURIComponent(url.pathname)).toBe('/rest/v1/Friends App Questions');
+    expect(url.searchParams.get('select')).toBe('id,question,category,question_en');
+
+    expect(questions).toEqual([
+      { id: 'q-0000001', question: 'Was machst du am liebsten?', questionEn: 'What do you like doing most?', category: 'deep' },
+      { id: 'q-0000002', question: 'Wer aus der Runde tanzt am besten?', questionEn: 'Wer aus der Runde tanzt am besten?', category: 'wer-aus-der-runde' },
+    ]);
+    expect(report.missingEnglish).toEqual([expect.objectContaining({ id: 'q-0000002' })]);
+  });
+
+  it('fails with the PostgREST error so the next source is tried', async () => {
+    fetchMock.mockResolvedValue(json({ code: '42P01', message: 'relation does not exist', details: null, hint: null }, 404));
+
+    await expect(createSupabaseSource().load()).rejects.toThrow('Failed to fetch questions from Supabase: relation does not exist');
+  });
+});
@@ -0,0 +1,250 @@
+import { parseQuestionsResponse, rowsToQuestions, type ParsedQuestions, type Question, type QuestionSnapshot } from '@/lib/questions';
+import { createEmptyReport } from '@/lib/questionSchema';
+import { parseCsv } from '@/lib/csv';
+import { parseCardThemes, type CardThemeMap } from '@/lib/cardTheme';
+
+export type QuestionSourceKind = 'supabase' | 'sheets' | 'static' | 'memory' | 'snapshot';
+
+/**
+ * Anything that can produce a question deck. Sources are tried in order by
+ * `loadFromSources` until one returns questions.
+ */
+export interface QuestionSource {
+  kind: QuestionSourceKind;
+  /** Human-readable identifier for logs, e.g. the sheet ID or URL */
+  id: string;
+  load: () => Promise<ParsedQuestions>;
+}
+
+export interface LoadedQuestions extends ParsedQuestions {
+  /** Which source served the deck */
+  source: QuestionSourceKind;
+}
+
+interface SheetsSourceOptions {
+  sheetId: string;
+  /** Tab ID within the spreadsheet, defaults to the first tab */
+  gid?: string;
+  /** Optional tab with `category` and `theme` (JSON) columns */
+  themesGid?: string;
+}
+
+export function getSheetCsvUrl(sheetId: string, gid?: string): string {
+  return `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv${gid ? `&gid=${gid}` : ''}`;
+}
+
+export function createSheetsSource({ sheetId, gid, themesGid }: SheetsSourceOptions): QuestionSource {
+  const csvUrl = getSheetCsvUrl(sheetId, gid);
+
+  return {
+    kind: 'sheets',
+    id: sheetId,
+    load: async () => {
+      const [response, themes] = await Promise.all([
+        fetch(csvUrl),
+        themesGid ? loadSheetThemes(getSheetCsvUrl(sheetId, themesGid)) : undefined,
+      ]);
+      if (!response.ok) {
+        throw new Error('Failed to fetch data from Google Sheets');
+      }
+      return { ...(await parseQuestionsResponse(response)), themes };
+    },
+  };
+}
+
+/**
+ * Reads a `category,theme` CSV tab. Themes are optional, so failures only
+ * cost the custom look, never the deck.
+ */
+async function loadSheetThemes(csvUrl: string): Promise<CardThemeMap | undefined> {
+  try {
+    const response = await fetch(csvUrl);
+    if (!response.ok) {
+      throw new Error(`Google Sheets responded with ${response.status}`);
+    }
+    const raw: Record<string, unknown> = {};
+    for (const { line, values } of parseCsv(await response.text()).records) {
+      if (!values.category || !values.theme) continue;
+      try {
+        raw[values.category] = JSON.parse(values.theme);
+      } catch {
+        console.warn(`Card themes row ${line}: theme is not valid JSON`);
+      }
+    }
+    return validateThemes(raw);
+  } catch (error) {
+    console.warn('Failed to load card themes from Google Sheets:', error);
+    return undefined;
+  }
+}
+
+function validateThemes(raw: unknown): CardThemeMap {
+  const { themes, errors } = parseCardThemes(raw);
+  errors.forEach(error => console.warn(`Card themes: ${error}`));
+  return themes;
+}
+
+/**
+ * Static CSV or JSON file. JSON is either an array of
+ * `{ id?, question, category, question_en? }` objects or
+ * `{ questions: [...], themes: { [category]: CardTheme } }`.
+ */
+export function createStaticSource(url: string): QuestionSource {
+  return {
+    kind: 'static',
+    id: url,
+    load: async () => {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch static questions from ${url}`);
+      }
+      if (!/\.json($|\?)/i.test(url)) {
+        return parseQuestionsResponse(response);
+      }
+
+      const data: Record<string, string>[] | { questions?: Record<string, string>[]; themes?: unknown } = await response.json();
+      if (Array.isArray(data)) {
+        return objectsToQuestions(data);
+      }
+      return {
+        ...objectsToQuestions(data.questions ?? []),
+        themes: data.themes === undefined ? undefined : validateThemes(data.themes),
+      };
+    },
+  };
+}
+
+export function createSupabaseSource(table: 'Friends App Questions' = 'Friends App Questions'): QuestionSource {
+  return {
+    kind: 'supabase',
+    id: table,
+    load: async () => {
+      // Loaded lazily so chains without Supabase never create a client
+      const { supabase } = await import('@/integrations/supabase/client');
+      const { data, error } = await supabase
+        .from(table)
+        .select('id, question, category, question_en');
+
+      if (error) {
+        throw new Error(`Failed to fetch questions from Supabase: ${error.message}`);
+      }
+      return objectsToQuestions(data ?? []);
+    },
+  };
+}
+
+/**
+ * Fixed deck, for tests and local fixtures
+ */
+export function createMemorySource(questions: Question[], id = 'fixture', themes?: CardThemeMap): QuestionSource {
+  return {
+    kind: 'memory',
+    id,
+    load: async () => ({ questions: [...questions], report: createEmptyReport(), themes }),
+  };
+}
+
+/**
+ * Deck bundled into the app at build time - the guaranteed last fallback.
+ * Imported lazily so it ends up in its own chunk.
+ */
+export function createSnapshotSource(snapshot?: QuestionSnapshot): QuestionSource {
+  return {
+    kind: 'snapshot',
+    id: 'bundled',
+    load: async () => {
+      const { createdAt, questions } = snapshot ?? (await import('@/data/questionSnapshot')).questionSnapshot;
+      return {
+        questions: [...questions],
+        report: createEmptyReport(),
+        version: `snapshot-${createdAt}`,
+      };
+    },
+  };
+}
+
+/**
+ * Timestamp of the bundled snapshot when `version` came from it, else null
+ */
+export function getSnapshotDate(version: string | null | undefined): Date | null {
+  if (!version?.startsWith('snapshot-')) return null;
+  const date = new Date(version.slice('snapshot-'.length));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Maps plain row objects (JSON file, database rows), numbered from 1
+ */
+function objectsToQuestions(rows: Record<string, string | null | undefined>[]): ParsedQuestions {
+  return rowsToQuestions(rows.map((values, index) => ({ line: index + 1, values })));
+}
+
+// Production deck, used when the env doesn't override it
+const DEFAULT_SOURCE_ORDER = 'supabase,sheets,static';
+export const DEFAULT_GOOGLE_SHEET_ID = '1-5NpzNwUiAsl_BPruHygyUbpO3LHkWr8E08fqkypOcU';
+const DEFAULT_STATIC_QUESTIONS_URL = '/quiz_questions.csv';
+
+/**
+ * Builds the fallback chain from Vite env config:
+ * - `VITE_QUESTION_SOURCES`: order, e.g. "supabase,sheets,static"
+ * - `VITE_GOOGLE_SHEET_ID` (+ optional `VITE_GOOGLE_SHEET_GID`, and
+ *   `VITE_GOOGLE_SHEET_THEMES_GID` for a tab with card themes)
+ * - `VITE_STATIC_QUESTIONS_URL`: CSV or JSON file
+ * Supabase is configured through the client (`VITE_SUPABASE_URL` / `_PUBLISHABLE_KEY`).
+ * The bundled snapshot is always appended as the last fallback.
+ */
+export function createSourcesFromEnv(env: ImportMetaEnv = import.meta.env): QuestionSource[] {
+  const order = (env.VITE_QUESTION_SOURCES || DEFAULT_SOURCE_ORDER)
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const sources: QuestionSource[] = [];
+
+  for (const name of order) {
+    switch (name) {
+      case 'supabase':
+        sources.push(createSupabaseSource());
+        break;
+      case 'sheets':
+        sources.push(createSheetsSource({
+          sheetId: env.VITE_GOOGLE_SHEET_ID || DEFAULT_GOOGLE_SHEET_ID,
+          gid: env.VITE_GOOGLE_SHEET_GID,
+          themesGid: env.VITE_GOOGLE_SHEET_THEMES_GID,
+        }));
+        break;
+      case 'static':
+        sources.push(createStaticSource(env.VITE_STATIC_QUESTIONS_URL || DEFAULT_STATIC_QUESTIONS_URL));
+        break;
+      case 'snapshot':
+        break; // Always added last, see below
+      default:
+        console.warn(`Unknown question source "${name}" in VITE_QUESTION_SOURCES`);
+    }
+  }
+
+  sources.push(createSnapshotSource());
+  return sources;
+}
+
+/**
+ * Tries each source in order and returns the first non-empty deck
+ */
+export async function loadFromSources(sources: QuestionSource[] = createSourcesFromEnv()): Promise<LoadedQuestions> {
+  for (const source of sources) {
+    try {
+      const result = await source.load();
+      result.report.rejected.forEach(({ line, message }) => {
+        console.warn(`Questions (${source.kind}: ${source.id}) row ${line}: ${message}`);
+      });
+      if (result.questions.length > 0) {
+        return { ...result, source: source.kind };
+      }
+      console.warn(`Question source "${source.kind}" returned no questions, trying next`);
+    } catch (error) {
+      console.error(`Error loading questions from "${source.kind}", trying next:`, error);
+    }
+  }
+
+  throw new Error(`No question source available (tried ${sources.map(s => s.kind).join(', ') || 'none'})`);
+}
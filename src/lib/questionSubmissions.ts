@@ -0,0 +1,131 @@
+// Questions suggested by players. Submissions go straight to the
+// question_submissions table; when the device is offline they are kept in
+// localStorage and sent once the connection is back.
+import { z } from 'zod';
+import { readStoredJson, writeStoredJson } from '@/lib/localStore';
+
+const QUEUE_KEY = 'submission-queue';
+// Postgres unique_violation: the row from an earlier attempt already arrived
+const UNIQUE_VIOLATION = '23505';
+
+export const QUESTION_MIN_LENGTH = 10;
+export const QUESTION_MAX_LENGTH = 300;
+export const NAME_MAX_LENGTH = 60;
+
+export interface SubmissionMessages {
+  questionTooShort: string;
+  questionTooLong: string;
+  categoryRequired: string;
+  nameTooLong: string;
+}
+
+/** Form schema; limits match the checks in the question_submissions migration */
+export function createSubmissionSchema(messages: SubmissionMessages) {
+  return z.object({
+    question: z
+      .string()
+      .trim()
+      .min(QUESTION_MIN_LENGTH, messages.questionTooShort)
+      .max(QUESTION_MAX_LENGTH, messages.questionTooLong),
+    category: z.string().min(1, messages.categoryRequired),
+    language: z.enum(['de', 'en']),
+    name: z.string().trim().max(NAME_MAX_LENGTH, messages.nameTooLong),
+  });
+}
+
+export type SubmissionValues = z.infer<ReturnType<typeof createSubmissionSchema>>;
+
+interface QueuedSubmission {
+  client_id: string;
+  question: string;
+  category: string;
+  language: string;
+  submitter_name: string | null;
+}
+
+function readQueue(): QueuedSubmission[] {
+  const queue = readStoredJson(QUEUE_KEY);
+  return Array.isArray(queue)
+    ? queue.filter((entry): entry is QueuedSubmission => typeof entry?.client_id === 'string')
+    : [];
+}
+
+export function pendingSubmissionCount(): number {
+  return readQueue().length;
+}
+
+/**
+ * 'offline' when the request never reached Supabase; rejected submissions
+ * (failed checks, policy) throw, as retrying them would not help.
+ */
+async function sendSubmission(submission: QueuedSubmission): Promise<'sent' | 'offline'> {
+  let client: typeof import('@/integrations/supabase/client');
+  try {
+    client = await import('@/integrations/supabase/client');
+  } catch {
+    return 'offline';
+  }
+
+  // No .select(): the insert-only policy would hide the new row
+  const { error } = await client.supabase.from('question_submissions').insert(submission);
+  if (!error || error.code === UNIQUE_VIOLATION) return 'sent';
+  // Database errors carry a code, failed fetches don't
+  if (!error.code) return 'offline';
+  throw new Error(`Could not submit question: ${error.message}`);
+}
+
+export async function submitQuestion(values: SubmissionValues): Promise<'sent' | 'queued'> {
+  const submission: QueuedSubmission = {
+    client_id: crypto.randomUUID(),
+    question: values.question,
+    category: values.category,
+    language: values.language,
+    submitter_name: values.name || null,
+  };
+
+  if (navigator.onLine && (await sendSubmission(submission)) === 'sent') return 'sent';
+  writeStoredJson(QUEUE_KEY, [...readQueue(), submission]);
+  return 'queued';
+}
+
+let flushing: Promise<number> | null = null;
+
+/** Sends queued submissions; resolves with how many arrived */
+export function flushSubmissionQueue(): Promise<number> {
+  flushing ??= (async () => {
+    const done = new Set<string>();
+    let sent = 0;
+    for (const submission of readQueue()) {
+      try {
+        if ((await sendSubmission(submission)) === 'offline') continue;
+        sent++;
+      } catch (error) {
+        console.warn('Dropping queued question submission:', error);
+      }
+      done.add(submission.client_id);
+    }
+    // Re-read so submissions queued meanwhile are kept
+    writeStoredJson(QUEUE_KEY, readQueue().filter(s => !done.has(s.client_id)));
+    return sent;
+  })().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+}
+
+/**
+ * Retries the queue now and whenever the browser comes back online.
+ * Returns a cleanup function.
+ */
+export function watchSubmissionQueue(onSent: (count: number) => void) {
+  const flush = () => {
+    if (!navigator.onLine || pendingSubmissionCount() === 0) return;
+    flushSubmissionQueue().then(count => {
+      if (count > 0) onSent(count);
+    });
+  };
+
+  flush();
+  window.addEventListener('online', flush);
+  return () => window.removeEventListener('online', flush);
+}
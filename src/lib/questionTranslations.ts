@@ -1,3 +1,5 @@
+import { getCategory } from '@/lib/categories';
+
 // Frontend translation map for German to English questions
 // This allows translation without requiring changes to the data source
 
@@ -13,18 +15,6 @@ const translationMap: Record<string, string> = {
   // Add more translations as needed - the function will fall back to German if no translation exists
 };
 
-// Category translation map
-const categoryTranslationMap: Record<string, string> = {
-  'wer aus der runde': 'Which of us',
-  'friends': 'Friends',
-  'party': 'Party',
-  'self reflection': 'Self Reflection',
-  'family': 'Family',
-  'fuck': 'Fuck',
-  'deep': 'Deep',
-  'work': 'Work',
-};
-
 export function translateQuestion(germanQuestion: string, language: 'de' | 'en'): string {
   if (language === 'de') {
     return germanQuestion;
@@ -35,10 +25,6 @@ export function translateQuestion(germanQuestion: string, language: 'de' | 'en')
 }
 
 export function translateCategory(category: string, language: 'de' | 'en'): string {
-  if (language === 'de') {
-    return category;
-  }
-  
-  const lowerCategory = category.toLowerCase();
-  return categoryTranslationMap[lowerCategory] || category;
+  // Known categories are stored as registry slugs; unknown ones keep their raw value
+  return getCategory(category)?.names[language] ?? category;
 }
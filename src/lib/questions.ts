@@ -0,0 +1,149 @@
+import { parseCsv, parseCsvStream, type CsvParseResult } from '@/lib/csv';
+import { hashQuestionId, resolveQuestionId } from '@/lib/questionIds';
+import { normalizeCategory } from '@/lib/categories';
+import { createEmptyReport, formatRowError, questionRowSchema, type DeckReport } from '@/lib/questionSchema';
+import type { CardThemeMap } from '@/lib/cardTheme';
+
+export interface Question {
+  /** Stable ID from the `id` column, or a hash of the German text */
+  id: string;
+  question: string;
+  questionEn: string;
+  /** Registry slug (see categories.ts), or the raw value for unknown categories */
+  category: string;
+  /** Any additional sheet columns, keyed by header name */
+  extra?: Record<string, string>;
+}
+
+/**
+ * Deck bundled at build time by scripts/snapshot-questions.ts
+ */
+export interface QuestionSnapshot {
+  /** ISO timestamp of when the snapshot was taken */
+  createdAt: string;
+  /** Where it was taken from: the sheet ID or a local file path */
+  origin: string;
+  questions: Question[];
+}
+
+export interface ParsedQuestions {
+  questions: Question[];
+  report: DeckReport;
+  /** Source version (HTTP ETag) when the source provides one */
+  version?: string;
+  /** Card themes shipped with the deck, keyed by category slug */
+  themes?: CardThemeMap;
+}
+
+const KNOWN_COLUMNS = ['id', 'question', 'category', 'question_en'];
+const REQUIRED_COLUMNS = ['question', 'category'];
+
+interface SourceRow {
+  /** Line (CSV) or 1-based row number (JSON, database) for error reporting */
+  line: number;
+  values: Record<string, string | null | undefined>;
+}
+
+/**
+ * Validates rows and maps them to questions by column name. Categories are
+ * normalised against the registry; every problem ends up in the report.
+ */
+export function rowsToQuestions(rows: SourceRow[]): ParsedQuestions {
+  const questions: Question[] = [];
+  const report = createEmptyReport();
+  const linesById = new Map<string, number[]>();
+  const unknownCategories = new Map<string, number[]>();
+
+  for (const row of rows) {
+    // zod treats null as a type error, while an empty cell should be "missing"
+    const values = Object.fromEntries(
+      Object.entries(row.values).map(([key, value]) => [key, value ?? undefined])
+    );
+    const parsed = questionRowSchema.safeParse(values);
+
+    if (!parsed.success) {
+      report.rejected.push({ line: row.line, message: formatRowError(parsed.error) });
+      continue;
+    }
+
+    const { question, category: rawCategory, question_en: questionEn } = parsed.data;
+    // Through the alias table, so every source agrees with the database ID
+    const id = resolveQuestionId(parsed.data.id || hashQuestionId(question));
+
+    const lines = linesById.get(id);
+    if (lines) {
+      lines.push(row.line);
+      continue;
+    }
+    linesById.set(id, [row.line]);
+
+    const category = normalizeCategory(rawCategory);
+    if (!category) {
+      unknownCategories.set(rawCategory, [...(unknownCategories.get(rawCategory) ?? []), row.line]);
+    }
+
+    if (!questionEn) {
+      report.missingEnglish.push({ id, question, line: row.line });
+    }
+
+    const extra: Record<string, string> = {};
+    Object.entries(row.values).forEach(([key, value]) => {
+      if (!KNOWN_COLUMNS.includes(key) && value != null) extra[key] = value;
+    });
+
+    questions.push({
+      id,
+      question,
+      questionEn: questionEn || question,
+      category: category ?? rawCategory,
+      ...(Object.keys(extra).length > 0 ? { extra } : {}),
+    });
+  }
+
+  linesById.forEach((lines, id) => {
+    if (lines.length > 1) {
+      const question = questions.find(q => q.id === id)?.question ?? '';
+      report.duplicates.push({ id, question, lines });
+    }
+  });
+  unknownCategories.forEach((lines, category) => {
+    report.unknownCategories.push({ category, lines });
+  });
+
+  return { questions, report };
+}
+
+/**
+ * Maps parsed CSV records to questions by header name, collecting bad rows
+ */
+export function csvToQuestions(result: CsvParseResult): ParsedQuestions {
+  const missingColumns = REQUIRED_COLUMNS.filter(column => !result.headers.includes(column));
+
+  if (missingColumns.length > 0) {
+    const report = createEmptyReport();
+    report.rejected = [
+      ...result.errors,
+      { line: 1, message: `Missing required column(s): ${missingColumns.join(', ')}` },
+    ];
+    return { questions: [], report };
+  }
+
+  const { questions, report } = rowsToQuestions(result.records);
+  report.rejected = [...result.errors, ...report.rejected].sort((a, b) => a.line - b.line);
+  return { questions, report };
+}
+
+export function parseQuestionsCsv(text: string): ParsedQuestions {
+  return csvToQuestions(parseCsv(text));
+}
+
+/**
+ * Parses a CSV response body while it downloads, falling back to text
+ */
+export async function parseQuestionsResponse(response: Response): Promise<ParsedQuestions> {
+  const parsed = response.body
+    ? csvToQuestions(await parseCsvStream(response.body))
+    : parseQuestionsCsv(await response.text());
+  const etag = response.headers.get('ETag');
+  return etag ? { ...parsed, version: etag } : parsed;
+}
@@ -0,0 +1,103 @@
+// Shareable versions of the session recap: plain text for messengers and a
+// PNG drawn on a canvas, so no DOM screenshot library is needed.
+import { getCategoryStyle } from '@/lib/categories';
+import type { Question } from '@/lib/questions';
+import { formatDuration, isSkipped, type SessionRecapData } from '@/lib/sessionLog';
+
+export interface RecapLabels {
+  title: string;
+  questions: string;
+  favourites: string;
+  skipped: string;
+  categoryName: (category: string) => string;
+  questionText: (question: Question) => string;
+}
+
+function statsLine({ total }: SessionRecapData, labels: RecapLabels): string {
+  return [
+    `${total.count} ${labels.questions}`,
+    formatDuration(total.timeOnCard),
+    `${total.favourited} ${labels.favourites}`,
+    `${total.skipped} ${labels.skipped}`,
+  ].join(' · ');
+}
+
+export function buildRecapText(recap: SessionRecapData, questionsById: Map<string, Question>, labels: RecapLabels): string {
+  const lines = [`Friends App – ${labels.title}`, statsLine(recap, labels)];
+
+  recap.categories.forEach(({ category, count, entries }) => {
+    lines.push('', `${labels.categoryName(category)} (${count})`);
+    entries.forEach(entry => {
+      const question = questionsById.get(entry.questionId);
+      if (!question || isSkipped(entry)) return;
+      lines.push(`• ${labels.questionText(question)}${entry.favourited ? ' ♥' : ''}`);
+    });
+  });
+
+  return lines.join('\n');
+}
+
+const IMAGE_WIDTH = 1080;
+const PADDING = 96;
+const BAR_HEIGHT = 56;
+const ROW_HEIGHT = 160;
+const ROWS_TOP = 360;
+
+/** Title, totals and a bar per category, in the app's dark look */
+export async function renderRecapImage(recap: SessionRecapData, labels: RecapLabels): Promise<Blob> {
+  const height = ROWS_TOP + recap.categories.length * ROW_HEIGHT + PADDING;
+  const canvas = document.createElement('canvas');
+  canvas.width = IMAGE_WIDTH;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+
+  // Make sure the display font is used if it's loaded at all
+  await document.fonts?.ready;
+  const font = (size: number, weight = 'normal') => `${weight} ${size}px 'Factor A', sans-serif`;
+
+  context.fillStyle = '#161616';
+  context.fillRect(0, 0, IMAGE_WIDTH, height);
+
+  context.fillStyle = '#ffffff';
+  context.font = font(80, 'bold');
+  context.fillText(labels.title, PADDING, PADDING + 80);
+
+  context.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  context.font = font(36);
+  context.fillText(statsLine(recap, labels), PADDING, PADDING + 160);
+
+  const maxCount = Math.max(1, ...recap.categories.map(entry => entry.count));
+  const barWidth = IMAGE_WIDTH - PADDING * 2;
+  let y = ROWS_TOP;
+
+  recap.categories.forEach(({ category, count }) => {
+    context.fillStyle = '#ffffff';
+    context.font = font(32, 'bold');
+    context.fillText(labels.categoryName(category).toUpperCase(), PADDING, y);
+    context.textAlign = 'right';
+    context.fillText(String(count), IMAGE_WIDTH - PADDING, y);
+    context.textAlign = 'left';
+
+    const barTop = y + 20;
+    context.fillStyle = 'rgba(255, 255, 255, 0.1)';
+    context.beginPath();
+    context.roundRect(PADDING, barTop, barWidth, BAR_HEIGHT, BAR_HEIGHT / 2);
+    context.fill();
+
+    context.fillStyle = getCategoryStyle(category).stripColor;
+    context.beginPath();
+    context.roundRect(PADDING, barTop, Math.max(BAR_HEIGHT, (count / maxCount) * barWidth), BAR_HEIGHT, BAR_HEIGHT / 2);
+    context.fill();
+
+    y += ROW_HEIGHT;
+  });
+
+  context.fillStyle = 'rgba(255, 255, 255, 0.4)';
+  context.font = font(28);
+  context.fillText('Friends App', PADDING, height - PADDING / 2);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render image'))), 'image/png');
+  });
+}
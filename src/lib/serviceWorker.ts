@@ -0,0 +1,47 @@
+// Registers public/sw.js (production builds only) and reports when a new
+// version has been installed and is waiting to take over.
+
+/**
+ * @param onUpdateAvailable called with a function that activates the new
+ * version and reloads the page
+ */
+export function registerServiceWorker(onUpdateAvailable: (applyUpdate: () => void) => void) {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const notify = (worker: ServiceWorker) => {
+    onUpdateAvailable(() => {
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  // Reload once the new worker has taken control
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  navigator.serviceWorker
+    .register(`${import.meta.env.BASE_URL}sw.js`)
+    .then(registration => {
+      // An update finished installing during a previous visit
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        notify(registration.waiting);
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        if (!installing) return;
+        installing.addEventListener('statechange', () => {
+          // No controller means this is the first install, not an update
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            notify(installing);
+          }
+        });
+      });
+    })
+    .catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+}
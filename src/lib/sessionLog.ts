@@ -0,0 +1,73 @@
+// What was played this session, for the recap: one entry per question with
+// the time spent on it and whether it was favourited or skipped.
+import { sortCategories } from '@/lib/categories';
+
+export interface SessionEntry {
+  questionId: string;
+  category: string;
+  firstViewedAt: number;
+  /** Total time on the card in ms, over all visits */
+  timeOnCard: number;
+  favourited: boolean;
+  /** Hidden with "never show again" */
+  hidden: boolean;
+}
+
+/** Cards left faster than this count as skipped */
+export const QUICK_SKIP_MS = 3000;
+
+export function isSkipped(entry: SessionEntry): boolean {
+  return entry.hidden || entry.timeOnCard < QUICK_SKIP_MS;
+}
+
+export interface RecapTotals {
+  count: number;
+  timeOnCard: number;
+  favourited: number;
+  skipped: number;
+}
+
+export interface CategoryRecap extends RecapTotals {
+  category: string;
+  entries: SessionEntry[];
+}
+
+export interface SessionRecapData {
+  categories: CategoryRecap[];
+  total: RecapTotals;
+}
+
+const totalsOf = (entries: SessionEntry[]): RecapTotals => ({
+  count: entries.length,
+  timeOnCard: entries.reduce((sum, entry) => sum + entry.timeOnCard, 0),
+  favourited: entries.filter(entry => entry.favourited).length,
+  skipped: entries.filter(isSkipped).length,
+});
+
+/**
+ * Groups entries by category, in category screen order; entries keep the
+ * order they were played in
+ */
+export function summarizeSession(entries: SessionEntry[]): SessionRecapData {
+  const byCategory = new Map<string, SessionEntry[]>();
+  entries.forEach(entry => {
+    byCategory.set(entry.category, [...(byCategory.get(entry.category) ?? []), entry]);
+  });
+
+  return {
+    categories: sortCategories([...byCategory.keys()]).map(category => {
+      const categoryEntries = byCategory.get(category)!;
+      return { category, entries: categoryEntries, ...totalsOf(categoryEntries) };
+    }),
+    total: totalsOf(entries),
+  };
+}
+
+/** "45 s", "12 min" or "1 h 5 min" */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
@@ -0,0 +1,55 @@
+// Seeded, unbiased shuffling. The same seed and deck always produce the same
+// order, so everyone who opens a link with `?seed=` walks the same sequence.
+import { fnv1a } from '@/lib/questionIds';
+
+export const SEED_PARAM = 'seed';
+
+/**
+ * mulberry32 PRNG seeded with a hash of `seed`, returns values in [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = parseInt(fnv1a(seed), 36) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle, returns a new array
+ */
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Short random seed for a new round, e.g. "k3x9q2"
+ */
+export function generateSeed(): string {
+  const values = new Uint32Array(1);
+  crypto.getRandomValues(values);
+  return values[0].toString(36).padStart(6, '0').slice(-6);
+}
+
+export function readSeedFromUrl(): string | null {
+  const seed = new URLSearchParams(window.location.search).get(SEED_PARAM)?.trim();
+  return seed && /^[a-z0-9-]{1,32}$/i.test(seed) ? seed : null;
+}
+
+/**
+ * Puts the seed into the address bar without adding a history entry
+ */
+export function writeSeedToUrl(seed: string) {
+  const url = new URL(window.location.href);
+  url.searchParams.set(SEED_PARAM, seed);
+  window.history.replaceState(window.history.state, '', url);
+}
@@ -0,0 +1,7 @@
+import { AdminConsole } from '@/components/AdminConsole';
+
+const Admin = () => {
+  return <AdminConsole />;
+};
+
+export default Admin;
@@ -0,0 +1,7 @@
+import { DeckBrowser } from '@/components/DeckBrowser';
+
+const Browse = () => {
+  return <DeckBrowser />;
+};
+
+export default Browse;
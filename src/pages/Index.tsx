@@ -1,12 +1,7 @@
 import { QuizApp } from '@/components/QuizApp';
-import { LanguageProvider } from '@/contexts/LanguageContext';
 
 const Index = () => {
-  return (
-    <LanguageProvider>
-      <QuizApp />
-    </LanguageProvider>
-  );
+  return <QuizApp />;
 };
 
 export default Index;
@@ -1 +1,21 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY?: string;
+  /** Comma-separated question source order, e.g. "supabase,sheets,static" */
+  readonly VITE_QUESTION_SOURCES?: string;
+  readonly VITE_GOOGLE_SHEET_ID?: string;
+  readonly VITE_GOOGLE_SHEET_GID?: string;
+  readonly VITE_GOOGLE_SHEET_THEMES_GID?: string;
+  /** CSV or JSON deck used by the "static" source */
+  readonly VITE_STATIC_QUESTIONS_URL?: string;
+  /** Minimum number of questions between two of the same category */
+  readonly VITE_DECK_MIN_GAP?: string;
+  /** Category shares, e.g. "deep:0.4,party:0.2" */
+  readonly VITE_DECK_WEIGHTS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,22 @@
+-- Questions suggested by players from inside the app
+CREATE TABLE public.question_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Generated on the device, so a retried submission is only stored once
+  client_id uuid NOT NULL UNIQUE,
+  question text NOT NULL CHECK (char_length(question) BETWEEN 10 AND 300),
+  category text NOT NULL CHECK (char_length(category) BETWEEN 1 AND 60),
+  language text NOT NULL CHECK (language IN ('de', 'en')),
+  submitter_name text CHECK (char_length(submitter_name) <= 60),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Insert only: the app can submit, but nobody can read, change or delete
+-- submissions with the public key
+ALTER TABLE public.question_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anyone to submit questions"
+ON public.question_submissions
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (status = 'pending');
@@ -0,0 +1,47 @@
+-- Moderation from the /admin route. Admins are Supabase auth users with
+-- "role": "admin" in their app metadata (set with the service role, e.g.
+-- auth.admin.updateUserById(id, { app_metadata: { role: 'admin' } })).
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin'
+$$;
+
+-- Retired questions stay in the table but are no longer served
+ALTER TABLE "Friends App Questions" ADD COLUMN retired_at timestamptz;
+
+DROP POLICY "Allow public read access to questions" ON "Friends App Questions";
+
+CREATE POLICY "Allow public read access to live questions"
+ON "Friends App Questions"
+FOR SELECT
+USING (retired_at IS NULL OR public.is_admin());
+
+CREATE POLICY "Allow admins to add questions"
+ON "Friends App Questions"
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Allow admins to edit questions"
+ON "Friends App Questions"
+FOR UPDATE
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+-- Admins review submissions; everyone else can still only insert
+CREATE POLICY "Allow admins to read submissions"
+ON public.question_submissions
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+CREATE POLICY "Allow admins to review submissions"
+ON public.question_submissions
+FOR UPDATE
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
@@ -0,0 +1,215 @@
+-- Normalised question storage. "Friends App Questions" had no key and only
+-- German text; questions now have stable IDs, a status and one translation
+-- per locale, and categories live in their own table. The old table is
+-- replaced by a view of the same name so existing readers keep working.
+
+CREATE TYPE public.question_status AS ENUM ('draft', 'live', 'retired');
+CREATE TYPE public.translation_source AS ENUM ('human', 'machine');
+
+-- Mirrors the registry in src/lib/categories.ts (card themes stay in code)
+CREATE TABLE public.categories (
+  slug text PRIMARY KEY CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name_de text NOT NULL,
+  name_en text NOT NULL,
+  -- Other spellings found in sheets, e.g. 'freunde' for friends
+  aliases text[] NOT NULL DEFAULT '{}',
+  body_color text NOT NULL,
+  strip_color text NOT NULL,
+  sort_order integer NOT NULL
+);
+
+CREATE TABLE public.questions (
+  -- Share-link ID: 'q-' plus the hash of the original German text (see
+  -- src/lib/questionIds.ts); kept when the text is edited later
+  id text PRIMARY KEY,
+  category text NOT NULL REFERENCES public.categories (slug) ON UPDATE CASCADE,
+  status public.question_status NOT NULL DEFAULT 'draft',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.question_translations (
+  question_id text NOT NULL REFERENCES public.questions (id) ON DELETE CASCADE,
+  locale text NOT NULL CHECK (locale IN ('de', 'en')),
+  text text NOT NULL CHECK (char_length(trim(text)) > 0),
+  source public.translation_source NOT NULL DEFAULT 'human',
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (question_id, locale)
+);
+
+CREATE INDEX questions_category_idx ON public.questions (category);
+
+-- Same key as categoryKey() in categories.ts: "Self_Reflection " → "self reflection"
+CREATE OR REPLACE FUNCTION public.category_key(value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(lower(normalize(value, NFC)), '[-_\s]+', ' ', 'g'))
+$$;
+
+-- Same ID as hashQuestionId() in questionIds.ts: 32-bit FNV-1a of the
+-- normalised text in base36. Characters outside the BMP hash differently
+-- than in JavaScript (UTF-16), which no current question contains.
+CREATE OR REPLACE FUNCTION public.question_hash_id(value text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  normalized text := lower(regexp_replace(trim(normalize(value, NFC)), '\s+', ' ', 'g'));
+  hash bigint := 2166136261;
+  digits text := '0123456789abcdefghijklmnopqrstuvwxyz';
+  encoded text := '';
+  i integer;
+BEGIN
+  FOR i IN 1..char_length(normalized) LOOP
+    hash := (hash # ascii(substr(normalized, i, 1))) & 4294967295;
+    hash := (hash * 16777619) & 4294967295;
+  END LOOP;
+
+  LOOP
+    encoded := substr(digits, (hash % 36)::integer + 1, 1) || encoded;
+    hash := hash / 36;
+    EXIT WHEN hash = 0;
+  END LOOP;
+
+  RETURN 'q-' || lpad(encoded, 7, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER questions_touch_updated_at
+BEFORE UPDATE ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+CREATE TRIGGER question_translations_touch_updated_at
+BEFORE UPDATE ON public.question_translations
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+INSERT INTO public.categories (slug, name_de, name_en, aliases, body_color, strip_color, sort_order) VALUES
+  ('wer-aus-der-runde', 'Wer aus der Runde', 'Which of us', ARRAY['which of us'], 'hsl(278, 100%, 57%)', 'hsl(278, 100%, 57%)', 10),
+  ('friends', 'Friends', 'Friends', ARRAY['freunde'], 'hsl(278, 100%, 57%)', 'hsl(278, 100%, 57%)', 20),
+  ('party', 'Party', 'Party', '{}', 'hsl(300, 100%, 50%)', 'hsl(300, 100%, 50%)', 30),
+  ('self-reflection', 'Self Reflection', 'Self Reflection', ARRAY['selbstreflexion'], 'hsl(290, 100%, 50%)', 'hsl(290, 100%, 50%)', 40),
+  ('family', 'Family', 'Family', ARRAY['familie'], 'hsl(328, 100%, 56%)', 'hsl(328, 100%, 56%)', 50),
+  ('fuck', 'Fuck', 'Fuck', '{}', 'hsl(15, 100%, 50%)', 'hsl(15, 100%, 50%)', 60),
+  ('deep', 'Deep', 'Deep', '{}', 'hsl(290, 100%, 50%)', 'hsl(290, 100%, 50%)', 70),
+  ('work', 'Work', 'Work', ARRAY['arbeit'], 'hsl(290, 100%, 50%)', 'hsl(290, 100%, 50%)', 80),
+  ('connection', 'Connection', 'Connection', '{}', 'hsl(0, 100%, 50%)', 'hsl(0, 100%, 50%)', 90),
+  ('identity', 'Identity', 'Identity', '{}', 'hsl(328, 100%, 56%)', 'hsl(328, 100%, 56%)', 100),
+  ('career', 'Career', 'Career', ARRAY['karriere'], 'hsl(290, 100%, 50%)', 'hsl(290, 100%, 50%)', 110),
+  ('travel', 'Travel', 'Travel', ARRAY['reisen'], 'hsl(15, 100%, 50%)', 'hsl(15, 100%, 50%)', 120),
+  ('health', 'Health', 'Health', ARRAY['gesundheit'], 'hsl(300, 100%, 50%)', 'hsl(300, 100%, 50%)', 130),
+  ('money', 'Money', 'Money', ARRAY['geld'], 'hsl(290, 100%, 50%)', 'hsl(290, 100%, 50%)', 140),
+  ('love', 'Love', 'Love', ARRAY['liebe'], 'hsl(15, 100%, 50%)', 'hsl(15, 100%, 50%)', 150),
+  ('hobby', 'Hobby', 'Hobby', ARRAY['hobbies', 'hobbys'], 'hsl(328, 100%, 56%)', 'hsl(328, 100%, 56%)', 160),
+  ('dreams', 'Dreams', 'Dreams', ARRAY['träume'], 'hsl(300, 100%, 50%)', 'hsl(300, 100%, 50%)', 170),
+  ('fear', 'Fear', 'Fear', ARRAY['angst'], 'hsl(0, 100%, 50%)', 'hsl(0, 100%, 50%)', 180),
+  ('wisdom', 'Wisdom', 'Wisdom', ARRAY['weisheit'], 'hsl(290, 100%, 50%)', 'hsl(290, 100%, 50%)', 190),
+  ('future', 'Future', 'Future', ARRAY['zukunft'], 'hsl(15, 100%, 50%)', 'hsl(15, 100%, 50%)', 200);
+
+-- Copy the old table. Raw category values are matched like the app does;
+-- unknown ones become categories of their own, sorted last.
+CREATE TEMPORARY TABLE legacy_questions ON COMMIT DROP AS
+SELECT DISTINCT ON (public.question_hash_id(old.question))
+  public.question_hash_id(old.question) AS id,
+  trim(old.question) AS question,
+  coalesce(known.slug, trim(both '-' from regexp_replace(public.category_key(old.category), '[^a-z0-9]+', '-', 'g'))) AS category,
+  CASE WHEN old.retired_at IS NULL THEN 'live' ELSE 'retired' END::public.question_status AS status
+FROM "Friends App Questions" old
+LEFT JOIN LATERAL (
+  SELECT c.slug
+  FROM public.categories c
+  WHERE public.category_key(old.category) IN (
+    SELECT public.category_key(name)
+    FROM unnest(ARRAY[c.slug, c.name_de, c.name_en] || c.aliases) AS name
+  )
+  LIMIT 1
+) known ON true
+WHERE trim(old.question) <> ''
+ORDER BY public.question_hash_id(old.question), old.retired_at NULLS FIRST;
+
+INSERT INTO public.categories (slug, name_de, name_en, body_color, strip_color, sort_order)
+SELECT DISTINCT category, initcap(replace(category, '-', ' ')), initcap(replace(category, '-', ' ')),
+  'hsl(290, 100%, 50%)', 'hsl(290, 100%, 50%)', 1000
+FROM legacy_questions
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO public.questions (id, category, status)
+SELECT id, category, status FROM legacy_questions;
+
+INSERT INTO public.question_translations (question_id, locale, text, source)
+SELECT id, 'de', question, 'human' FROM legacy_questions;
+
+DROP TABLE "Friends App Questions";
+
+-- Drop-in replacement for the old table, plus the new ID and English text.
+-- security_invoker applies the policies below to whoever queries the view.
+CREATE VIEW "Friends App Questions"
+WITH (security_invoker = true) AS
+SELECT
+  q.id,
+  coalesce(de.text, en.text) AS question,
+  en.text AS question_en,
+  q.category
+FROM public.questions q
+LEFT JOIN public.question_translations de ON de.question_id = q.id AND de.locale = 'de'
+LEFT JOIN public.question_translations en ON en.question_id = q.id AND en.locale = 'en'
+WHERE q.status = 'live' AND coalesce(de.text, en.text) IS NOT NULL;
+
+GRANT SELECT ON "Friends App Questions" TO anon, authenticated;
+
+-- Everyone reads categories and live questions; admins (see is_admin) manage
+-- everything
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.question_translations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to categories"
+ON public.categories
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow admins to manage categories"
+ON public.categories
+FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Allow public read access to live questions"
+ON public.questions
+FOR SELECT
+USING (status = 'live' OR public.is_admin());
+
+CREATE POLICY "Allow admins to manage questions"
+ON public.questions
+FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Allow public read access to live translations"
+ON public.question_translations
+FOR SELECT
+USING (
+  public.is_admin()
+  OR EXISTS (SELECT 1 FROM public.questions q WHERE q.id = question_id AND q.status = 'live')
+);
+
+CREATE POLICY "Allow admins to manage translations"
+ON public.question_translations
+FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
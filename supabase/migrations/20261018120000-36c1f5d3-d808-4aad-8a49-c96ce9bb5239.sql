@@ -0,0 +1,53 @@
+-- Players flag questions from the card context menu. Like submissions,
+-- reports are insert-only for the public key; admins read and clear them.
+CREATE TYPE public.report_reason AS ENUM ('offensive', 'wrong_translation', 'duplicate', 'typo');
+
+CREATE TABLE public.question_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- App question ID; no foreign key, as the deck may come from the sheet
+  question_id text NOT NULL CHECK (char_length(question_id) <= 100),
+  -- Text as the player saw it, in the language they played in
+  question_text text NOT NULL CHECK (char_length(question_text) <= 500),
+  locale text NOT NULL CHECK (locale IN ('de', 'en')),
+  reason public.report_reason NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX question_reports_question_id_idx ON public.question_reports (question_id);
+
+ALTER TABLE public.question_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anyone to report questions"
+ON public.question_reports
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Allow admins to read reports"
+ON public.question_reports
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+CREATE POLICY "Allow admins to clear reports"
+ON public.question_reports
+FOR DELETE
+TO authenticated
+USING (public.is_admin());
+
+-- One row per reported question for the admin console
+CREATE VIEW public.question_report_counts
+WITH (security_invoker = true) AS
+SELECT
+  question_id,
+  (array_agg(question_text ORDER BY created_at DESC))[1] AS question_text,
+  count(*) AS total,
+  count(*) FILTER (WHERE reason = 'offensive') AS offensive,
+  count(*) FILTER (WHERE reason = 'wrong_translation') AS wrong_translation,
+  count(*) FILTER (WHERE reason = 'duplicate') AS duplicate,
+  count(*) FILTER (WHERE reason = 'typo') AS typo,
+  max(created_at) AS last_reported_at
+FROM public.question_reports
+GROUP BY question_id;
+
+GRANT SELECT ON public.question_report_counts TO authenticated;
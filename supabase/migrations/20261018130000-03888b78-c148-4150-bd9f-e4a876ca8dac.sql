@@ -0,0 +1,50 @@
+-- Applies one run of scripts/sync-sheet.ts in a single transaction, so a
+-- sync that fails part-way leaves the deck as it was. Every step is an
+-- upsert or a status update, so the same changes can be applied again.
+--
+-- changes: {
+--   categories:   [{ slug, name }]            new categories, sorted last
+--   questions:    [{ id, category }]          new live questions
+--   moves:        [{ id, category }]
+--   translations: [{ question_id, locale, text }]
+--   restored:     [id]                        back to live
+--   retired:      [id]
+-- }
+CREATE OR REPLACE FUNCTION public.apply_deck_sync(changes jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO public.categories (slug, name_de, name_en, body_color, strip_color, sort_order)
+  SELECT c.slug, c.name, c.name, 'hsl(290, 100%, 50%)', 'hsl(290, 100%, 50%)', 1000
+  FROM jsonb_to_recordset(coalesce(changes->'categories', '[]')) AS c(slug text, name text)
+  ON CONFLICT (slug) DO NOTHING;
+
+  INSERT INTO public.questions (id, category, status)
+  SELECT q.id, q.category, 'live'
+  FROM jsonb_to_recordset(coalesce(changes->'questions', '[]')) AS q(id text, category text)
+  ON CONFLICT (id) DO UPDATE SET category = excluded.category, status = excluded.status;
+
+  UPDATE public.questions q
+  SET category = m.category
+  FROM jsonb_to_recordset(coalesce(changes->'moves', '[]')) AS m(id text, category text)
+  WHERE q.id = m.id;
+
+  INSERT INTO public.question_translations (question_id, locale, text, source)
+  SELECT t.question_id, t.locale, t.text, 'human'
+  FROM jsonb_to_recordset(coalesce(changes->'translations', '[]')) AS t(question_id text, locale text, text text)
+  ON CONFLICT (question_id, locale) DO UPDATE SET text = excluded.text, source = excluded.source;
+
+  UPDATE public.questions
+  SET status = 'live'
+  WHERE id IN (SELECT jsonb_array_elements_text(coalesce(changes->'restored', '[]')));
+
+  UPDATE public.questions
+  SET status = 'retired'
+  WHERE id IN (SELECT jsonb_array_elements_text(coalesce(changes->'retired', '[]')));
+END;
+$$;
+
+-- Only the sync script, which uses the service role key
+REVOKE EXECUTE ON FUNCTION public.apply_deck_sync(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_deck_sync(jsonb) TO service_role;
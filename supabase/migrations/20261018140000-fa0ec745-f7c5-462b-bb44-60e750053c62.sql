@@ -0,0 +1,38 @@
+-- question_hash_id trimmed with SQL trim(), which only strips spaces, before
+-- collapsing whitespace. JavaScript's trim() strips all whitespace, so text
+-- with leading or trailing newlines or tabs got a different ID than
+-- hashQuestionId() in src/lib/questionIds.ts. Whitespace is now collapsed
+-- first, using the same characters as JavaScript's \s, and then trimmed.
+-- Stored IDs are kept; scripts/sync-sheet.ts matches such rows by text and
+-- aliases the app's hash to them.
+CREATE OR REPLACE FUNCTION public.question_hash_id(value text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  normalized text := lower(btrim(regexp_replace(
+    normalize(value, NFC),
+    '[\t\n\v\f\r \u00a0\u1680\u2000-\u200a\u2028\u2029\u202f\u205f\u3000\ufeff]+',
+    ' ',
+    'g'
+  ), ' '));
+  hash bigint := 2166136261;
+  digits text := '0123456789abcdefghijklmnopqrstuvwxyz';
+  encoded text := '';
+  i integer;
+BEGIN
+  FOR i IN 1..char_length(normalized) LOOP
+    hash := (hash # ascii(substr(normalized, i, 1))) & 4294967295;
+    hash := (hash * 16777619) & 4294967295;
+  END LOOP;
+
+  LOOP
+    encoded := substr(digits, (hash % 36)::integer + 1, 1) || encoded;
+    hash := hash / 36;
+    EXIT WHEN hash = 0;
+  END LOOP;
+
+  RETURN 'q-' || lpad(encoded, 7, '0');
+END;
+$$;
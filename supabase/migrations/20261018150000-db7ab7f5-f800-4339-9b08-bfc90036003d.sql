@@ -0,0 +1,40 @@
+-- Publishes a submission as a live question in one transaction: the question,
+-- its text and the submission's new status are written together, so a failed
+-- approval leaves nothing behind and can simply be retried. Runs with the
+-- caller's rights, so the admin policies still decide who may approve.
+CREATE OR REPLACE FUNCTION public.approve_submission(
+  submission_id uuid,
+  question_text text,
+  question_category text
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  submission public.question_submissions;
+  new_id text := public.question_hash_id(question_text);
+BEGIN
+  SELECT * INTO submission
+  FROM public.question_submissions
+  WHERE id = submission_id AND status = 'pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % is not pending', submission_id;
+  END IF;
+
+  INSERT INTO public.questions (id, category, status)
+  VALUES (new_id, question_category, 'live');
+
+  INSERT INTO public.question_translations (question_id, locale, text, source)
+  VALUES (new_id, submission.language, question_text, 'human');
+
+  UPDATE public.question_submissions
+  SET question = question_text, category = question_category, status = 'approved'
+  WHERE id = submission_id;
+
+  RETURN new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approve_submission(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_submission(uuid, text, text) TO authenticated;
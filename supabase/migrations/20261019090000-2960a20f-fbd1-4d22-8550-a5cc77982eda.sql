@@ -0,0 +1,59 @@
+-- Submissions store the category as typed or picked in the app, which may be
+-- a name or an alias rather than a slug. Approving one now resolves it the
+-- same way the legacy import did, instead of failing on the foreign key.
+
+-- The slug a raw category value refers to, or NULL when none matches
+CREATE OR REPLACE FUNCTION public.category_slug(value text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.slug
+  FROM public.categories c
+  WHERE public.category_key(value) IN (
+    SELECT public.category_key(name)
+    FROM unnest(ARRAY[c.slug, c.name_de, c.name_en] || c.aliases) AS name
+  )
+  ORDER BY c.sort_order
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_submission(
+  submission_id uuid,
+  question_text text,
+  question_category text
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  submission public.question_submissions;
+  new_id text := public.question_hash_id(question_text);
+  slug text := public.category_slug(question_category);
+BEGIN
+  SELECT * INTO submission
+  FROM public.question_submissions
+  WHERE id = submission_id AND status = 'pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % is not pending', submission_id;
+  END IF;
+
+  IF slug IS NULL THEN
+    RAISE EXCEPTION 'Unknown category "%"', question_category
+      USING HINT = 'Pick one of the categories in public.categories.';
+  END IF;
+
+  INSERT INTO public.questions (id, category, status)
+  VALUES (new_id, slug, 'live');
+
+  INSERT INTO public.question_translations (question_id, locale, text, source)
+  VALUES (new_id, submission.language, question_text, 'human');
+
+  UPDATE public.question_submissions
+  SET question = question_text, category = slug, status = 'approved'
+  WHERE id = submission_id;
+
+  RETURN new_id;
+END;
+$$;
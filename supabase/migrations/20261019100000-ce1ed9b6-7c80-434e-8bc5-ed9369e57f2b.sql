@@ -0,0 +1,51 @@
+-- Saves an admin's edit of a live question in one transaction: the category
+-- and the texts are written together, so a failed save leaves the question as
+-- it was. Only the locale the text was shown in is written; the English text
+-- is edited alongside German questions and removed when left empty. Runs with
+-- the caller's rights, so the admin policies still decide who may edit.
+CREATE OR REPLACE FUNCTION public.update_live_question(
+  question_id text,
+  question_category text,
+  question_locale text,
+  question_text text,
+  question_en text
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  slug text := public.category_slug(question_category);
+BEGIN
+  IF slug IS NULL THEN
+    RAISE EXCEPTION 'Unknown category "%"', question_category
+      USING HINT = 'Pick one of the categories in public.categories.';
+  END IF;
+
+  UPDATE public.questions
+  SET category = slug
+  WHERE id = question_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question % does not exist', question_id;
+  END IF;
+
+  INSERT INTO public.question_translations (question_id, locale, text, source)
+  VALUES (question_id, question_locale, question_text, 'human')
+  ON CONFLICT ON CONSTRAINT question_translations_pkey
+  DO UPDATE SET text = EXCLUDED.text, source = EXCLUDED.source;
+
+  IF question_locale = 'de' THEN
+    IF nullif(btrim(question_en), '') IS NULL THEN
+      DELETE FROM public.question_translations t
+      WHERE t.question_id = update_live_question.question_id AND t.locale = 'en';
+    ELSE
+      INSERT INTO public.question_translations (question_id, locale, text, source)
+      VALUES (question_id, 'en', btrim(question_en), 'human')
+      ON CONFLICT ON CONSTRAINT question_translations_pkey
+      DO UPDATE SET text = EXCLUDED.text, source = EXCLUDED.source;
+    END IF;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_live_question(text, text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_live_question(text, text, text, text, text) TO authenticated;
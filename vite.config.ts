@@ -1,8 +1,64 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createHash } from "crypto";
+import { readdirSync, readFileSync, writeFileSync } from "fs";
 import { componentTagger } from "lovable-tagger";
 
+/**
+ * Fills in the precache list and cache version of public/sw.js after a
+ * build. Hashed bundles only exist after the build, and the first visit isn't
+ * controlled by the worker, so they have to be precached rather than cached
+ * on request. The version hashes the build, so each release changes sw.js.
+ */
+function serviceWorkerManifest(): Plugin {
+  let outDir = "dist";
+  let publicDir = "public";
+
+  const listFiles = (dir: string, prefix = ""): string[] =>
+    readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+      if (entry.name.startsWith(".")) return [];
+      const name = `${prefix}${entry.name}`;
+      return entry.isDirectory() ? listFiles(path.join(dir, entry.name), `${name}/`) : [name];
+    });
+
+  return {
+    name: "service-worker-manifest",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+      publicDir = config.publicDir;
+    },
+    writeBundle(_, bundle) {
+      const hash = createHash("sha256");
+      const files: string[] = [];
+
+      Object.values(bundle).forEach((output) => {
+        if (output.fileName.endsWith(".map")) return;
+        files.push(output.fileName);
+        hash.update(output.fileName).update(output.type === "chunk" ? output.code : output.source);
+      });
+      if (publicDir) {
+        listFiles(publicDir).filter((file) => file !== "sw.js").forEach((file) => {
+          files.push(file);
+          hash.update(file).update(readFileSync(path.join(publicDir, file)));
+        });
+      }
+
+      const swPath = path.join(outDir, "sw.js");
+      const source = readFileSync(swPath, "utf8");
+      const urls = ["./", ...files.sort().map((file) => `./${encodeURI(file)}`)];
+      const filled = source
+        .replace(/const CACHE_VERSION = '[^']*';/, `const CACHE_VERSION = '${hash.digest("hex").slice(0, 12)}';`)
+        .replace(/const PRECACHE_URLS = \[[^\]]*\];/, `const PRECACHE_URLS = ${JSON.stringify(urls, null, 2)};`);
+      if (!filled.includes("const CACHE_VERSION = '") || filled.includes("const CACHE_VERSION = 'dev'") || !filled.includes('"./index.html"')) {
+        throw new Error("sw.js: CACHE_VERSION or PRECACHE_URLS placeholder not found");
+      }
+      writeFileSync(swPath, filled);
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   base: "./",
@@ -14,6 +70,7 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    serviceWorkerManifest(),
   ].filter(Boolean),
   resolve: {
     alias: {